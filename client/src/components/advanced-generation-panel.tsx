@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { GenerationConfig } from "@/types/road-network";
+import { configRange, DEFAULT_CONFIG, NumericConfigKey, validateConfig } from "@/lib/generation-config";
+import { RoadPatternKind } from "@/lib/road-patterns";
+
+interface AdvancedGenerationPanelProps {
+  config: GenerationConfig;
+  onConfigChange: (config: GenerationConfig) => void;
+}
+
+interface FieldGroup {
+  title: string;
+  fields: Array<{ key: NumericConfigKey; label: string; step: number }>;
+}
+
+const fieldGroups: FieldGroup[] = [
+  {
+    title: 'Districts',
+    fields: [
+      { key: 'GRID_ANGLE', label: 'Grid angle (°)', step: 1 },
+      { key: 'ORGANIC_DEVIATION', label: 'Organic deviation (°)', step: 1 },
+      { key: 'DISTRICT_COUNT', label: 'District count', step: 1 },
+      { key: 'DISTRICT_SPREAD', label: 'District spread', step: 500 }
+    ]
+  },
+  {
+    title: 'Segments',
+    fields: [
+      { key: 'HIGHWAY_SEGMENT_LENGTH', label: 'Highway length', step: 10 },
+      { key: 'DEFAULT_SEGMENT_LENGTH', label: 'Street length', step: 10 },
+      { key: 'HIGHWAY_SEGMENT_WIDTH', label: 'Highway width', step: 1 },
+      { key: 'DEFAULT_SEGMENT_WIDTH', label: 'Street width', step: 1 }
+    ]
+  },
+  {
+    title: 'Branching',
+    fields: [
+      { key: 'HIGHWAY_BRANCH_PROBABILITY', label: 'Highway branch probability', step: 0.01 },
+      { key: 'DEFAULT_BRANCH_PROBABILITY', label: 'Street branch probability', step: 0.01 },
+      { key: 'HIGHWAY_BRANCH_POPULATION_THRESHOLD', label: 'Highway branch population', step: 0.01 },
+      { key: 'NORMAL_BRANCH_POPULATION_THRESHOLD', label: 'Street branch population', step: 0.01 },
+      { key: 'NORMAL_BRANCH_TIME_DELAY_FROM_HIGHWAY', label: 'Street delay from highway', step: 1 },
+      { key: 'NORMAL_BRANCH_TIME_DELAY', label: 'Street delay from street', step: 1 },
+      { key: 'HIGHWAY_CURVE_DEVIATION', label: 'Highway curve (°)', step: 1 }
+    ]
+  },
+  {
+    title: 'Local constraints',
+    fields: [
+      { key: 'MINIMUM_INTERSECTION_DEVIATION', label: 'Min intersection angle (°)', step: 1 },
+      { key: 'ROAD_SNAP_DISTANCE', label: 'Snap distance', step: 5 }
+    ]
+  },
+  {
+    title: 'Terrain',
+    fields: [
+      { key: 'TERRAIN_HEIGHT', label: 'Max elevation', step: 10 },
+      { key: 'TERRAIN_SEA_LEVEL', label: 'Sea level', step: 0.01 },
+      { key: 'TERRAIN_RIVER_WIDTH', label: 'River width', step: 0.005 },
+      { key: 'TERRAIN_LAKE_DENSITY', label: 'Lake density', step: 0.01 },
+      { key: 'MAX_ROAD_SLOPE', label: 'Max road slope', step: 0.01 },
+      { key: 'BRIDGE_MAX_LENGTH', label: 'Max bridge length', step: 50 },
+      { key: 'TERRAIN_BEND_ANGLE', label: 'Max bend around obstacles (°)', step: 1 }
+    ]
+  },
+  {
+    title: 'Lots',
+    fields: [
+      { key: 'LOT_MIN_FRONTAGE', label: 'Min frontage', step: 5 },
+      { key: 'LOT_MAX_FRONTAGE', label: 'Max frontage', step: 5 },
+      { key: 'LOT_MIN_AREA', label: 'Min area', step: 50 },
+      { key: 'LOT_MAX_AREA', label: 'Max area', step: 100 }
+    ]
+  },
+  {
+    title: 'Zoning',
+    fields: [
+      { key: 'ZONE_COMMERCIAL_DENSITY', label: 'Commercial above density', step: 0.01 },
+      { key: 'ZONE_INDUSTRIAL_DISTANCE', label: 'Industrial within (of highway)', step: 10 },
+      { key: 'ZONE_INDUSTRIAL_MAX_DENSITY', label: 'Industrial below density', step: 0.01 },
+      { key: 'ZONE_CIVIC_SHARE', label: 'Civic share', step: 0.01 },
+      { key: 'ZONE_PARK_SHARE', label: 'Park share', step: 0.01 },
+      { key: 'BUILDING_MAX_HEIGHT', label: 'Max building height', step: 5 }
+    ]
+  },
+  {
+    title: 'Population noise',
+    fields: [
+      { key: 'HEATMAP_OCTAVES', label: 'Octaves', step: 1 },
+      { key: 'HEATMAP_FREQUENCY', label: 'Frequency', step: 0.0005 },
+      { key: 'HEATMAP_PERSISTENCE', label: 'Persistence', step: 0.05 },
+      { key: 'HEATMAP_LACUNARITY', label: 'Lacunarity', step: 0.1 },
+      { key: 'HEATMAP_DOMAIN_WARP', label: 'Domain warp', step: 50 }
+    ]
+  }
+];
+
+export function AdvancedGenerationPanel({ config, onConfigChange }: AdvancedGenerationPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateField = <K extends keyof GenerationConfig>(key: K, value: GenerationConfig[K]) => {
+    const result = validateConfig({ ...config, [key]: value });
+    if (result.success) {
+      setError(null);
+      onConfigChange(result.config);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded text-sm text-left"
+        data-testid="button-toggle-advanced"
+      >
+        {isOpen ? '▾' : '▸'} Advanced generation
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-3 text-xs max-h-80 overflow-y-auto pr-1">
+          <div>
+            <div className="font-semibold text-gray-300 mb-1">Road pattern</div>
+            <select
+              value={config.ROAD_PATTERN}
+              onChange={(e) => updateField('ROAD_PATTERN', e.target.value as RoadPatternKind)}
+              className="w-full bg-gray-800 rounded px-2 py-1 mb-1"
+              data-testid="select-road-pattern"
+            >
+              <option value="basic">Basic (perpendicular)</option>
+              <option value="grid">Grid</option>
+              <option value="radial">Radial</option>
+              <option value="organic">Organic</option>
+              <option value="mixed">Mixed districts</option>
+            </select>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={config.GRID_PER_DISTRICT}
+                onChange={(e) => updateField('GRID_PER_DISTRICT', e.target.checked)}
+                data-testid="checkbox-grid-per-district"
+              />
+              Grid axis per district
+            </label>
+          </div>
+
+          {fieldGroups.map(group => (
+            <div key={group.title}>
+              <div className="font-semibold text-gray-300 mb-1">{group.title}</div>
+              {group.fields.map(({ key, label, step }) => {
+                const { min, max } = configRange(key);
+                return (
+                  <div key={key} className="mb-1">
+                    <div className="flex justify-between items-center">
+                      <label htmlFor={`config-${key}`}>{label}</label>
+                      <input
+                        type="number"
+                        min={min}
+                        max={max}
+                        step={step}
+                        value={config[key]}
+                        onChange={(e) => updateField(key, Number(e.target.value))}
+                        className="w-20 bg-gray-800 rounded px-1 text-right"
+                        data-testid={`input-config-${key.toLowerCase().replace(/_/g, '-')}`}
+                      />
+                    </div>
+                    <input
+                      id={`config-${key}`}
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={config[key]}
+                      onChange={(e) => updateField(key, Number(e.target.value))}
+                      className="w-full"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          {error && <div className="text-red-400" data-testid="text-config-error">{error}</div>}
+
+          <button
+            onClick={() => {
+              setError(null);
+              onConfigChange(DEFAULT_CONFIG);
+            }}
+            className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+            data-testid="button-reset-config"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
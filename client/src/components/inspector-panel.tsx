@@ -0,0 +1,120 @@
+import { ReactNode } from "react";
+import { Building, Point, Segment } from "@/types/road-network";
+import { polygonArea } from "@/lib/geometry";
+import { HitTarget } from "@/lib/scene-index";
+
+interface InspectorPanelProps {
+  target: HitTarget;
+  onSelectSegment: (id: number) => void;
+  onClose: () => void;
+}
+
+const TITLES: Record<HitTarget['kind'], string> = {
+  segment: 'Road segment',
+  junction: 'Junction',
+  block: 'City block',
+  building: 'Building'
+};
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="text-gray-400">{label}</span>
+      <span className="text-right">{children}</span>
+    </div>
+  );
+}
+
+function formatPoint(p: Point): string {
+  return `(${Math.round(p.x)}, ${Math.round(p.y)})`;
+}
+
+function SegmentLinks({ links, onSelect }: { links: Segment[]; onSelect: (id: number) => void }) {
+  if (links.length === 0) return <span className="text-gray-500">none</span>;
+  return (
+    <span className="flex flex-wrap justify-end gap-1">
+      {links.map(link => (
+        <button
+          key={link.id}
+          onClick={() => onSelect(link.id)}
+          className="bg-gray-700 hover:bg-gray-600 px-1 rounded"
+          data-testid={`button-link-${link.id}`}
+        >
+          {link.id}
+        </button>
+      ))}
+    </span>
+  );
+}
+
+function SegmentDetails({ segment, onSelectSegment }: { segment: Segment; onSelectSegment: (id: number) => void }) {
+  return (
+    <>
+      <Row label="Id">{segment.id}</Row>
+      <Row label="t">{segment.t}</Row>
+      <Row label="Highway">{segment.highway ? 'yes' : 'no'}</Row>
+      <Row label="Length">{Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y).toFixed(1)}</Row>
+      <Row label="Direction">{(segment.dir * 180 / Math.PI).toFixed(1)}°</Row>
+      {segment.bridge && <Row label="Bridge">yes</Row>}
+      <Row label="Links forward"><SegmentLinks links={segment.links.f} onSelect={onSelectSegment} /></Row>
+      <Row label="Links back"><SegmentLinks links={segment.links.b} onSelect={onSelectSegment} /></Row>
+    </>
+  );
+}
+
+function BuildingDetails({ building }: { building: Building }) {
+  // Floor plate, courtyard excluded
+  const area = Math.abs(polygonArea(building.footprint)) - (building.courtyard ? Math.abs(polygonArea(building.courtyard)) : 0);
+  return (
+    <>
+      <Row label="Id">{building.id}</Row>
+      <Row label="Land use"><span className="capitalize">{building.landUse}</span></Row>
+      <Row label="Shape">{building.shape}</Row>
+      <Row label="Height">{building.tower ? `${building.height.toFixed(1)} / ${building.tower.height.toFixed(1)}` : building.height.toFixed(1)}</Row>
+      <Row label="Area">{Math.round(area)}</Row>
+      <div>
+        <div className="text-gray-400">Footprint</div>
+        <div className="font-mono" data-testid="text-inspector-footprint">
+          {building.footprint.map(formatPoint).join(' ')}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export function InspectorPanel({ target, onSelectSegment, onClose }: InspectorPanelProps) {
+  return (
+    <div
+      className="absolute top-4 right-4 w-72 bg-black bg-opacity-80 text-white p-4 rounded-lg text-xs max-h-[calc(100vh-2rem)] overflow-y-auto"
+      data-testid="panel-inspector"
+    >
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm font-semibold" data-testid="text-inspector-kind">{TITLES[target.kind]}</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" data-testid="button-close-inspector">
+          ✕
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        {target.kind === 'segment' && <SegmentDetails segment={target.item} onSelectSegment={onSelectSegment} />}
+        {target.kind === 'building' && <BuildingDetails building={target.item} />}
+        {target.kind === 'junction' && (
+          <>
+            <Row label="Node">{target.item.nodeId}</Row>
+            <Row label="Kind">{target.item.kind}</Row>
+            <Row label="Roads">{target.item.connectedRoads.length}</Row>
+            <Row label="Center">{formatPoint(target.item.center)}</Row>
+          </>
+        )}
+
+        {target.kind === 'block' && (
+          <>
+            <Row label="Id">{target.item.id}</Row>
+            <Row label="Area">{Math.round(target.item.area)}</Row>
+            <Row label="Sides">{target.item.points.length}</Row>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
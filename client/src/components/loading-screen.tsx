@@ -1,20 +1,55 @@
+import { GenerationPhase, GenerationProgress } from "@/types/road-network";
+
 interface LoadingScreenProps {
   isVisible: boolean;
+  progress?: GenerationProgress | null;
+  onCancel?: () => void;
 }
 
-export function LoadingScreen({ isVisible }: LoadingScreenProps) {
+const phaseLabels: Record<GenerationPhase, string> = {
+  roads: 'Placing roads',
+  network: 'Connecting the road network',
+  blocks: 'Extracting city blocks',
+  lots: 'Subdividing lots',
+  zoning: 'Zoning land use',
+  buildings: 'Placing buildings'
+};
+
+export function LoadingScreen({ isVisible, progress, onCancel }: LoadingScreenProps) {
   if (!isVisible) return null;
 
+  const fraction = progress ? Math.min(1, progress.segmentCount / Math.max(1, progress.segmentLimit)) : 0;
+
   return (
-    <div className="absolute inset-0 bg-background flex items-center justify-center z-50">
-      <div className="text-center">
-        <div className="inline-flex items-center space-x-2 mb-4">
-          <div className="w-3 h-3 bg-primary rounded-full pulse-dot"></div>
-          <div className="w-3 h-3 bg-accent rounded-full pulse-dot" style={{ animationDelay: '0.2s' }}></div>
-          <div className="w-3 h-3 bg-primary rounded-full pulse-dot" style={{ animationDelay: '0.4s' }}></div>
-        </div>
+    // Clicks pass through to the controls so a new run can supersede this one
+    <div className="absolute inset-0 bg-background/70 flex items-center justify-center z-50 pointer-events-none" data-testid="loading-screen">
+      <div className="text-center w-72 pointer-events-auto">
         <h1 className="text-3xl font-bold text-primary mb-2">CityGen</h1>
-        <p className="text-muted-foreground">Generating your city...</p>
+        <p className="text-muted-foreground mb-4" data-testid="text-loading-phase">
+          {progress ? phaseLabels[progress.phase] : 'Generating your city'}...
+        </p>
+        <div className="h-2 bg-muted rounded-full overflow-hidden mb-2">
+          <div
+            className="h-full bg-primary transition-[width] duration-100"
+            style={{ width: `${Math.round(fraction * 100)}%` }}
+            data-testid="progress-generation"
+          />
+        </div>
+        {progress && (
+          <p className="text-xs text-muted-foreground" data-testid="text-loading-counts">
+            {progress.segmentCount.toLocaleString()} / {progress.segmentLimit.toLocaleString()} segments
+            {progress.phase === 'roads' && ` · ${progress.queueSize.toLocaleString()} queued`}
+          </p>
+        )}
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="mt-4 bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded text-sm"
+            data-testid="button-cancel-generation"
+          >
+            Cancel
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,140 @@
+import { GenerationConfig } from "@/types/road-network";
+import { configRange, NumericConfigKey } from "@/lib/generation-config";
+import { HeatmapNoiseType } from "@/lib/noise";
+import { PopulationSourceKind } from "@/lib/population";
+
+export type PopulationTool = 'none' | 'brush' | 'eraser' | 'center';
+
+interface PopulationPanelProps {
+  source: PopulationSourceKind;
+  onSourceChange: (source: PopulationSourceKind) => void;
+  config: GenerationConfig;
+  onConfigChange: <K extends keyof GenerationConfig>(key: K, value: GenerationConfig[K]) => void;
+  tool: PopulationTool;
+  onToolChange: (tool: PopulationTool) => void;
+  centerCount: number;
+  onResetCenters: () => void;
+  onClearCenters: () => void;
+  onClearPaint: () => void;
+  onImageUpload: (file: File) => void;
+}
+
+const noiseSliders: Array<{ key: NumericConfigKey; label: string; step: number }> = [
+  { key: 'HEATMAP_OCTAVES', label: 'Octaves', step: 1 },
+  { key: 'HEATMAP_FREQUENCY', label: 'Frequency', step: 0.0005 },
+  { key: 'HEATMAP_PERSISTENCE', label: 'Persistence', step: 0.05 },
+  { key: 'HEATMAP_LACUNARITY', label: 'Lacunarity', step: 0.1 },
+  { key: 'HEATMAP_DOMAIN_WARP', label: 'Domain warp', step: 50 }
+];
+
+export function PopulationPanel({
+  source,
+  onSourceChange,
+  config,
+  onConfigChange,
+  tool,
+  onToolChange,
+  centerCount,
+  onResetCenters,
+  onClearCenters,
+  onClearPaint,
+  onImageUpload
+}: PopulationPanelProps) {
+  const toolButton = (value: PopulationTool, label: string) => (
+    <button
+      onClick={() => onToolChange(tool === value ? 'none' : value)}
+      className={`${tool === value ? 'bg-orange-600' : 'bg-gray-700 hover:bg-gray-600'} px-2 py-1 rounded`}
+      data-testid={`button-population-tool-${value}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div>
+      <label className="block text-sm mb-2">Population field</label>
+      <div className="space-y-1 text-xs">
+        <select
+          value={source}
+          onChange={(e) => {
+            onSourceChange(e.target.value as PopulationSourceKind);
+            onToolChange('none');
+          }}
+          className="w-full bg-gray-800 rounded px-2 py-1"
+          data-testid="select-population-source"
+        >
+          <option value="noise">Noise</option>
+          <option value="radial">City centers</option>
+          <option value="image">Image</option>
+          <option value="painted">Painted</option>
+        </select>
+
+        {source === 'noise' && (
+          <>
+            <select
+              value={config.HEATMAP_NOISE_TYPE}
+              onChange={(e) => onConfigChange('HEATMAP_NOISE_TYPE', e.target.value as HeatmapNoiseType)}
+              className="w-full bg-gray-800 rounded px-2 py-1"
+              data-testid="select-heatmap-noise"
+            >
+              <option value="fbm">Gradient (fBm)</option>
+              <option value="ridged">Ridged</option>
+            </select>
+            {noiseSliders.map(({ key, label, step }) => (
+              <div key={key}>
+                <label className="block">{label}: {config[key]}</label>
+                <input
+                  type="range"
+                  {...configRange(key)}
+                  step={step}
+                  value={config[key]}
+                  onChange={(e) => onConfigChange(key, Number(e.target.value))}
+                  className="w-full"
+                  data-testid={`slider-${key.toLowerCase().replace(/_/g, '-')}`}
+                />
+              </div>
+            ))}
+          </>
+        )}
+
+        {source === 'radial' && (
+          <>
+            <div>{centerCount} centers — click the map to add one</div>
+            <div className="flex gap-2">
+              {toolButton('center', 'Place centers')}
+              <button onClick={onResetCenters} className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded" data-testid="button-reset-centers">
+                Reset
+              </button>
+              <button onClick={onClearCenters} className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded" data-testid="button-clear-centers">
+                Clear
+              </button>
+            </div>
+          </>
+        )}
+
+        {source === 'image' && (
+          <input
+            type="file"
+            accept="image/*"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImageUpload(file);
+            }}
+            className="w-full"
+            data-testid="input-population-image"
+          />
+        )}
+
+        {source === 'painted' && (
+          <div className="flex gap-2">
+            {toolButton('brush', 'Brush')}
+            {toolButton('eraser', 'Eraser')}
+            <button onClick={onClearPaint} className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded" data-testid="button-clear-paint">
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { GenerationConfig } from "@/types/road-network";
+
+interface TerrainPanelProps {
+  config: GenerationConfig;
+  onConfigChange: <K extends keyof GenerationConfig>(key: K, value: GenerationConfig[K]) => void;
+  hasHeightmap: boolean;
+  onHeightmapUpload: (file: File) => void;
+  onClearHeightmap: () => void;
+}
+
+export function TerrainPanel({
+  config,
+  onConfigChange,
+  hasHeightmap,
+  onHeightmapUpload,
+  onClearHeightmap
+}: TerrainPanelProps) {
+  return (
+    <div>
+      <label className="block text-sm mb-2">Terrain</label>
+      <div className="space-y-1 text-xs">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={config.TERRAIN_ENABLED}
+            onChange={(e) => onConfigChange('TERRAIN_ENABLED', e.target.checked)}
+            data-testid="checkbox-terrain-enabled"
+          />
+          Water and slope constraints
+        </label>
+
+        {config.TERRAIN_ENABLED && (
+          <>
+            <div>{hasHeightmap ? 'Imported height map' : 'Generated from seed'}</div>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onHeightmapUpload(file);
+              }}
+              className="w-full"
+              data-testid="input-terrain-heightmap"
+            />
+            {hasHeightmap && (
+              <button onClick={onClearHeightmap} className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded" data-testid="button-clear-heightmap">
+                Use seed terrain
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
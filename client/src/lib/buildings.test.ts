@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Building, Point, RoadEdge, RoadSegmentInput } from "@/types/road-network";
+import { placeBuildings } from "@/lib/buildings";
+import { findCityBlocks } from "@/lib/city-blocks";
+import { runCityPipeline } from "@/lib/city-pipeline";
+import { DEFAULT_CONFIG } from "@/lib/generation-config";
+import { distanceFromPointToLineSegment, pointInPolygon, segmentIntersection } from "@/lib/geometry";
+import { subdivideBlocks } from "@/lib/lots";
+import { createRandomStreams, Random } from "@/lib/random";
+import { buildUnifiedRoadNetwork } from "@/lib/unified-road-network";
+
+function road(id: number, start: Point, end: Point): RoadSegmentInput {
+  return { id, start, end, width: 8, highway: false, bridge: false };
+}
+
+// True if the footprint reaches onto the road's paved band
+function onRoad(footprint: Point[], edge: RoadEdge): boolean {
+  const halfWidth = edge.width / 2;
+  const sides = footprint.map((a, i) => [a, footprint[(i + 1) % footprint.length]]);
+  return footprint.some(p => distanceFromPointToLineSegment(p, edge.start, edge.end) < halfWidth)
+    || pointInPolygon(edge.start, footprint)
+    || pointInPolygon(edge.end, footprint)
+    || sides.some(([a, b]) => segmentIntersection(a, b, edge.start, edge.end) !== null
+      || distanceFromPointToLineSegment(edge.start, a, b) < halfWidth
+      || distanceFromPointToLineSegment(edge.end, a, b) < halfWidth);
+}
+
+function buildingsOnRoads(buildings: Building[], edges: RoadEdge[]): Building[] {
+  return buildings.filter(building => {
+    const xs = building.footprint.map(p => p.x), ys = building.footprint.map(p => p.y);
+    const minX = Math.min(...xs), maxX = Math.max(...xs), minY = Math.min(...ys), maxY = Math.max(...ys);
+    return edges.some(edge => {
+      const reach = edge.width / 2;
+      if (Math.max(edge.start.x, edge.end.x) + reach < minX || Math.min(edge.start.x, edge.end.x) - reach > maxX) return false;
+      if (Math.max(edge.start.y, edge.end.y) + reach < minY || Math.min(edge.start.y, edge.end.y) - reach > maxY) return false;
+      return onRoad(building.footprint, edge);
+    });
+  });
+}
+
+describe('placeBuildings', () => {
+  it.each([1, 2, 3])('keeps footprints off a cul-de-sac (seed %i)', seed => {
+    const network = buildUnifiedRoadNetwork([
+      road(0, { x: 0, y: 0 }, { x: 400, y: 0 }),
+      road(1, { x: 400, y: 0 }, { x: 400, y: 400 }),
+      road(2, { x: 400, y: 400 }, { x: 0, y: 400 }),
+      road(3, { x: 0, y: 400 }, { x: 0, y: 0 }),
+      road(4, { x: 0, y: 200 }, { x: 300, y: 200 })
+    ], 10);
+    const random = new Random(seed);
+    const blocks = findCityBlocks(network, random.fork('blocks'));
+    const parcels = subdivideBlocks(blocks, DEFAULT_CONFIG, random.fork('lots'));
+    const buildings = placeBuildings(parcels, { sample: () => 0.5 }, DEFAULT_CONFIG, createRandomStreams(random));
+
+    expect(buildings.length).toBeGreaterThan(0);
+    expect(buildingsOnRoads(buildings, network.edges)).toEqual([]);
+  });
+
+  it('keeps footprints off every road of a generated city', () => {
+    const { network, buildings } = runCityPipeline({
+      seed: 1,
+      segmentLimit: 2000,
+      config: DEFAULT_CONFIG,
+      population: { kind: 'noise' },
+      terrain: { kind: 'procedural' }
+    });
+    expect(buildings.length).toBeGreaterThan(0);
+    expect(buildingsOnRoads(buildings, network.edges)).toEqual([]);
+  });
+});
@@ -0,0 +1,252 @@
+import { Building, BuildingShape, GenerationConfig, LandUse, Parcel, Point, PopulationField } from "@/types/road-network";
+import { pointInPolygon, polygonArea, polygonCentroid } from "@/lib/geometry";
+import { Random, RandomStreams } from "@/lib/random";
+import { LAND_USE_COLORS, LAND_USES } from "@/lib/zoning";
+
+// Footprints smaller than this on either side are not worth drawing
+const MIN_BUILDING_SIZE = 4;
+// L, U, courtyard and tower shapes need room for their wings
+const MIN_COMPOUND_SIZE = 16;
+// Share of the largest fitting rectangle a building may cover
+const MIN_COVERAGE = 0.6;
+const MAX_COVERAGE = 0.85;
+// Wing depth as a share of the footprint's shorter side
+const WING_FRACTION = 0.35;
+// Tower side as a share of its podium
+const TOWER_FRACTION = 0.5;
+// Storey height, used for floor counts and window rows
+export const FLOOR_HEIGHT = 3.5;
+const PODIUM_MAX_HEIGHT = 20;
+
+// Local frame of a parcel: `u` runs along its street, `v` points inland
+interface Frame {
+  origin: Point;
+  u: Point;
+  v: Point;
+}
+
+function toWorld(frame: Frame, x: number, y: number): Point {
+  return {
+    x: frame.origin.x + frame.u.x * x + frame.v.x * y,
+    y: frame.origin.y + frame.u.y * x + frame.v.y * y
+  };
+}
+
+function toLocal(frame: Frame, p: Point): Point {
+  const dx = p.x - frame.origin.x;
+  const dy = p.y - frame.origin.y;
+  return { x: dx * frame.u.x + dy * frame.u.y, y: dx * frame.v.x + dy * frame.v.y };
+}
+
+// Aligns the frame with the parcel's longest street side. Parcels wind
+// counter-clockwise, so the inside is to the left of every side.
+function streetFrame(parcel: Parcel): Frame {
+  const { points } = parcel;
+  let best = 0, bestLength = -1;
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    // Street sides win over shared ones
+    const score = parcel.frontage[i] >= 0 ? length + 1e6 : length;
+    if (score > bestLength) {
+      bestLength = score;
+      best = i;
+    }
+  });
+
+  const a = points[best];
+  const b = points[(best + 1) % points.length];
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  const u = { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+  return { origin: polygonCentroid(points), u, v: { x: -u.y, y: u.x } };
+}
+
+// Whether a parcel side, in frame coordinates, passes through the inside of
+// the rectangle. Clips the side to each slab in turn.
+function crossesRectangle(a: Point, b: Point, center: Point, halfU: number, halfV: number): boolean {
+  let enter = 0, exit = 1;
+  const slabs: Array<[number, number, number]> = [
+    [a.x - center.x, b.x - a.x, halfU],
+    [a.y - center.y, b.y - a.y, halfV]
+  ];
+  for (const [start, delta, half] of slabs) {
+    if (delta === 0) {
+      if (Math.abs(start) >= half) return false;
+      continue;
+    }
+    const t0 = (-half - start) / delta, t1 = (half - start) / delta;
+    enter = Math.max(enter, Math.min(t0, t1));
+    exit = Math.min(exit, Math.max(t0, t1));
+  }
+  return exit - enter > 1e-9;
+}
+
+// Whether the frame-aligned rectangle lies inside the parcel: all corners
+// in, and no parcel side poking into it or cutting across, as the slit a
+// dead-end street leaves in its block does
+function fitsInside(parcel: Point[], local: Point[], frame: Frame, center: Point, halfU: number, halfV: number): boolean {
+  const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]]
+    .map(([sx, sy]) => toWorld(frame, center.x + sx * halfU, center.y + sy * halfV));
+  if (!corners.every(corner => pointInPolygon(corner, parcel))) return false;
+  return !local.some((p, i) => crossesRectangle(p, local[(i + 1) % local.length], center, halfU, halfV));
+}
+
+function chooseShape(landUse: LandUse, density: number, width: number, depth: number, random: Random): BuildingShape {
+  if (Math.min(width, depth) < MIN_COMPOUND_SIZE) return 'box';
+  switch (landUse) {
+    case 'industrial':
+      return random.chance(0.7) ? 'box' : 'l-shape';
+    case 'civic':
+      return random.chance(0.5) ? 'courtyard' : 'u-shape';
+    case 'commercial':
+      if (density > 0.75 && random.chance(0.6)) return 'tower';
+      return random.chance(0.5) ? 'courtyard' : 'box';
+  }
+  if (density > 0.5) return random.chance(0.5) ? 'courtyard' : 'u-shape';
+  if (density > 0.25) return random.chance(0.5) ? 'u-shape' : 'l-shape';
+  return random.chance(0.3) ? 'l-shape' : 'box';
+}
+
+// Offices climb steeply with density, homes gently; sheds and public
+// buildings keep to a few storeys wherever they are
+function buildingHeight(landUse: LandUse, density: number, maxHeight: number, random: Random): number {
+  const jitter = random.range(0.8, 1.2);
+  let height: number;
+  switch (landUse) {
+    case 'commercial':
+      height = maxHeight * density * density * jitter;
+      break;
+    case 'industrial':
+      height = random.range(8, 16);
+      break;
+    case 'civic':
+      height = random.range(12, 30);
+      break;
+    default:
+      height = maxHeight * 0.3 * density * jitter;
+  }
+  return Math.min(maxHeight, Math.max(FLOOR_HEIGHT, height));
+}
+
+function floors(height: number): number {
+  return Math.max(1, Math.floor(height / FLOOR_HEIGHT));
+}
+
+// Gross floor area of every building, summed per land use
+export function floorAreaByLandUse(buildings: Building[]): Record<LandUse, number> {
+  const totals = Object.fromEntries(LAND_USES.map(use => [use, 0])) as Record<LandUse, number>;
+  buildings.forEach(building => {
+    const plate = polygonArea(building.footprint) - (building.courtyard ? polygonArea(building.courtyard) : 0);
+    let area = plate * floors(building.height);
+    if (building.tower) {
+      area += polygonArea(building.tower.footprint) * Math.max(0, floors(building.tower.height) - floors(building.height));
+    }
+    totals[building.landUse] += area;
+  });
+  return totals;
+}
+
+function rectangle(halfU: number, halfV: number): Array<[number, number]> {
+  return [[-halfU, -halfV], [halfU, -halfV], [halfU, halfV], [-halfU, halfV]];
+}
+
+// Outlines in the building's own frame, front side first, centred on the
+// origin with the street towards -y
+function shapeOutlines(shape: BuildingShape, width: number, depth: number, random: Random) {
+  const w = width / 2;
+  const d = depth / 2;
+  const t = Math.min(width, depth) * WING_FRACTION;
+  let footprint: Array<[number, number]> = rectangle(w, d);
+  let courtyard: Array<[number, number]> | null = null;
+  let tower: Array<[number, number]> | null = null;
+
+  switch (shape) {
+    case 'l-shape':
+      // Front range plus one wing running back along either side
+      footprint = random.chance(0.5)
+        ? [[-w, -d], [w, -d], [w, -d + t], [-w + t, -d + t], [-w + t, d], [-w, d]]
+        : [[-w, -d], [w, -d], [w, d], [w - t, d], [w - t, -d + t], [-w, -d + t]];
+      break;
+    case 'u-shape':
+      footprint = [[-w, -d], [w, -d], [w, d], [w - t, d], [w - t, -d + t], [-w + t, -d + t], [-w + t, d], [-w, d]];
+      break;
+    case 'courtyard':
+      courtyard = rectangle(w - t, d - t);
+      break;
+    case 'tower':
+      tower = rectangle(w * TOWER_FRACTION, d * TOWER_FRACTION);
+      break;
+  }
+
+  return { footprint, courtyard, tower };
+}
+
+// Whether a world point falls on the building, courtyard excluded
+export function buildingContains(building: Building, point: Point): boolean {
+  if (!pointInPolygon(point, building.footprint)) return false;
+  return !building.courtyard || !pointInPolygon(point, building.courtyard);
+}
+
+// One building per zoned parcel, squared up to its street and set back from
+// every side of the lot. Parks stay open. Denser districts get bulkier and
+// taller buildings.
+export function placeBuildings(
+  parcels: Parcel[],
+  population: PopulationField,
+  config: Pick<GenerationConfig, 'BUILDING_MAX_HEIGHT'>,
+  streams: RandomStreams
+): Building[] {
+  const random = streams.buildings;
+  const buildings: Building[] = [];
+
+  parcels.forEach(parcel => {
+    if (parcel.landUse === 'park') return;
+    const frame = streetFrame(parcel);
+    const local = parcel.points.map(p => toLocal(frame, p));
+
+    // Start from the middle of the lot's extent along the street frame
+    const minU = Math.min(...local.map(p => p.x)), maxU = Math.max(...local.map(p => p.x));
+    const minV = Math.min(...local.map(p => p.y)), maxV = Math.max(...local.map(p => p.y));
+    let center = { x: (minU + maxU) / 2, y: (minV + maxV) / 2 };
+    if (!pointInPolygon(toWorld(frame, center.x, center.y), parcel.points)) center = { x: 0, y: 0 };
+    if (!pointInPolygon(toWorld(frame, center.x, center.y), parcel.points)) return;
+
+    // Largest scale of the lot's extent that still fits, keeping proportions
+    let low = 0, high = 0.5;
+    for (let i = 0; i < 16; i++) {
+      const mid = (low + high) / 2;
+      if (fitsInside(parcel.points, local, frame, center, (maxU - minU) * mid, (maxV - minV) * mid)) low = mid;
+      else high = mid;
+    }
+
+    const coverage = random.range(MIN_COVERAGE, MAX_COVERAGE);
+    const width = (maxU - minU) * low * 2 * coverage;
+    const depth = (maxV - minV) * low * 2 * coverage;
+    if (width < MIN_BUILDING_SIZE || depth < MIN_BUILDING_SIZE) return;
+
+    const origin = toWorld(frame, center.x, center.y);
+    const density = population.sample(origin.x, origin.y);
+    const shape = chooseShape(parcel.landUse, density, width, depth, random);
+    const outlines = shapeOutlines(shape, width, depth, random);
+    const height = buildingHeight(parcel.landUse, density, config.BUILDING_MAX_HEIGHT, random);
+    const place = (outline: Array<[number, number]>) =>
+      outline.map(([x, y]) => toWorld(frame, center.x + x, center.y + y));
+    const { hue, saturation } = LAND_USE_COLORS[parcel.landUse];
+
+    buildings.push({
+      id: buildings.length,
+      parcelId: parcel.id,
+      shape,
+      landUse: parcel.landUse,
+      footprint: place(outlines.footprint),
+      // Towers rise from a low podium
+      height: outlines.tower ? Math.min(height, Math.max(FLOOR_HEIGHT, Math.min(height * 0.25, PODIUM_MAX_HEIGHT))) : height,
+      courtyard: outlines.courtyard && place(outlines.courtyard),
+      tower: outlines.tower && { footprint: place(outlines.tower), height },
+      orientation: Math.atan2(frame.u.y, frame.u.x),
+      color: `hsl(${hue}, ${saturation}%, ${25 + streams.colors.next() * 20}%)`
+    });
+  });
+
+  return buildings;
+}
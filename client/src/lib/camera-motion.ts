@@ -0,0 +1,293 @@
+import { Camera } from "@/types/city";
+import { screenOffsetToWorld } from "@/lib/view-transform";
+
+export const MIN_ZOOM = 0.01;
+export const MAX_ZOOM = 10;
+// Steepest tilt away from looking straight down
+export const MAX_PITCH = Math.PI / 3;
+// Length of eased zoom and pan transitions
+const EASE_DURATION_MS = 250;
+// Fly-to duration per unit of path length, within these bounds
+const FLY_MS_PER_UNIT = 500;
+const FLY_MIN_MS = 400;
+const FLY_MAX_MS = 3000;
+// Trade-off between zooming out and panning on a fly-to; van Wijk and Nuij
+// found about 1.4 felt natural
+const FLY_CURVATURE = 1.42;
+// Inertial speed halves every this many milliseconds
+const INERTIA_HALF_LIFE_MS = 120;
+// Inertia stops below this screen speed, in pixels per millisecond
+const INERTIA_MIN_SPEED = 0.02;
+// Drags slower than this at release do not coast
+const INERTIA_RELEASE_SPEED = 0.1;
+// Pointer samples older than this do not count towards release velocity
+const VELOCITY_WINDOW_MS = 100;
+
+export function clampZoom(zoom: number): number {
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+}
+
+export function clampPitch(pitch: number): number {
+  return Math.max(0, Math.min(MAX_PITCH, pitch));
+}
+
+// Angle in (-PI, PI]
+function wrapAngle(angle: number): number {
+  const wrapped = angle % (Math.PI * 2);
+  if (wrapped > Math.PI) return wrapped - Math.PI * 2;
+  if (wrapped <= -Math.PI) return wrapped + Math.PI * 2;
+  return wrapped;
+}
+
+function clampCamera(camera: Camera): Camera {
+  return { ...camera, zoom: clampZoom(camera.zoom), bearing: wrapAngle(camera.bearing), pitch: clampPitch(camera.pitch) };
+}
+
+function easeOutCubic(t: number): number {
+  return 1 - Math.pow(1 - t, 3);
+}
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+// Camera position as a function of eased progress from 0 to 1
+type Path = (t: number) => Camera;
+
+// Screen position relative to the viewport centre, in pixels
+export interface ScreenOffset {
+  x: number;
+  y: number;
+}
+
+interface Animation {
+  path: Path;
+  start: number;
+  duration: number;
+  easing: (t: number) => number;
+}
+
+// Turn and tilt along a path, the short way round
+function orientation(from: Camera, to: Camera): (t: number) => Pick<Camera, 'bearing' | 'pitch'> {
+  const turn = wrapAngle(to.bearing - from.bearing);
+  return t => ({ bearing: from.bearing + turn * t, pitch: from.pitch + (to.pitch - from.pitch) * t });
+}
+
+// Straight interpolation, with zoom in log space so it feels even
+function linearPath(from: Camera, to: Camera): Path {
+  const zoomRatio = Math.log(to.zoom / from.zoom);
+  const orient = orientation(from, to);
+  return t => ({
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    zoom: from.zoom * Math.exp(zoomRatio * t),
+    ...orient(t)
+  });
+}
+
+// Zooms out, pans and zooms back in along the path that keeps apparent
+// motion steady (van Wijk and Nuij, "Smooth and efficient zooming and
+// panning"). `size` is the viewport width in pixels. Returns the path and
+// its length, which sets the duration.
+function flightPath(from: Camera, to: Camera, size: number): { path: Path; length: number } {
+  const rho = FLY_CURVATURE;
+  const w0 = size / from.zoom;
+  const w1 = size / to.zoom;
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const u1 = Math.hypot(dx, dy);
+
+  // Same place: a pure zoom
+  if (u1 * from.zoom < 1) {
+    const length = Math.abs(Math.log(w1 / w0)) / rho;
+    return { path: linearPath(from, to), length };
+  }
+
+  const b = (w: number, sign: number) => (w1 * w1 - w0 * w0 + sign * rho ** 4 * u1 * u1) / (2 * w * rho * rho * u1);
+  const r = (value: number) => Math.log(Math.sqrt(value * value + 1) - value);
+  const orient = orientation(from, to);
+  const r0 = r(b(w0, 1));
+  const r1 = r(b(w1, -1));
+  const length = (r1 - r0) / rho;
+
+  return {
+    path: t => {
+      const s = t * length;
+      const u = w0 / (rho * rho) * (Math.cosh(r0) * Math.tanh(rho * s + r0) - Math.sinh(r0));
+      const w = w0 * Math.cosh(r0) / Math.cosh(rho * s + r0);
+      return {
+        x: from.x + dx * u / u1,
+        y: from.y + dy * u / u1,
+        zoom: t === 1 ? to.zoom : size / w,
+        ...orient(t)
+      };
+    },
+    length
+  };
+}
+
+// Owns the live camera and moves it over time: eased transitions, fly-to
+// flights and inertial coasting after a drag. Call `step` once per frame;
+// it reports whether the camera is still moving.
+export class CameraMotion {
+  private current: Camera;
+  private animation: Animation | null = null;
+  // World units per millisecond while coasting
+  private velocity: { x: number; y: number } | null = null;
+  private samples: Array<{ x: number; y: number; time: number }> = [];
+  private lastStep: number | null = null;
+  private viewportWidth = 1;
+  // Called whenever the camera starts or keeps moving
+  onChange: (() => void) | null = null;
+
+  constructor(camera: Camera) {
+    this.current = clampCamera(camera);
+  }
+
+  get camera(): Camera {
+    return this.current;
+  }
+
+  get isMoving(): boolean {
+    return this.animation !== null || this.velocity !== null;
+  }
+
+  setViewport(width: number) {
+    this.viewportWidth = width;
+  }
+
+  // Moves at once, cancelling any motion
+  jumpTo(camera: Camera) {
+    this.stop();
+    this.current = clampCamera(camera);
+    this.onChange?.();
+  }
+
+  // Eases from wherever the camera is now. Targets build on the one in
+  // flight, so quick wheel ticks accumulate.
+  easeTo(target: Partial<Camera>, duration = EASE_DURATION_MS) {
+    const goal = this.goal();
+    this.animate(linearPath(this.current, clampCamera({ ...goal, ...target })), duration, easeOutCubic);
+  }
+
+  zoomBy(factor: number) {
+    this.easeTo({ zoom: this.goal().zoom * factor });
+  }
+
+  // Eased zoom that keeps the world point under `anchor` in place
+  zoomAt(factor: number, anchor: ScreenOffset) {
+    const from = this.current;
+    const to = clampZoom(this.goal().zoom * factor);
+    const offset = screenOffsetToWorld(from, anchor);
+    const world = { x: from.x + offset.x, y: from.y + offset.y };
+    const zoomRatio = Math.log(to / from.zoom);
+    this.animate(t => {
+      const camera = { ...from, zoom: from.zoom * Math.exp(zoomRatio * t) };
+      const shift = screenOffsetToWorld(camera, anchor);
+      return { ...camera, x: world.x - shift.x, y: world.y - shift.y };
+    }, EASE_DURATION_MS, easeOutCubic);
+  }
+
+  // Eased pan by a screen-space distance, e.g. from the keyboard
+  panBy(dxPixels: number, dyPixels: number) {
+    const goal = this.goal();
+    const shift = screenOffsetToWorld(goal, { x: dxPixels, y: dyPixels });
+    this.easeTo({ x: goal.x + shift.x, y: goal.y + shift.y });
+  }
+
+  // Immediate turn and tilt, e.g. while rotate-dragging
+  rotateBy(bearing: number, pitch: number) {
+    this.stop();
+    this.current = clampCamera({
+      ...this.current,
+      bearing: this.current.bearing + bearing,
+      pitch: this.current.pitch + pitch
+    });
+    this.onChange?.();
+  }
+
+  // Keeps the current bearing and pitch unless the target sets them
+  flyTo(target: Partial<Camera>) {
+    const to = clampCamera({ ...this.current, ...target });
+    const { path, length } = flightPath(this.current, to, this.viewportWidth);
+    const duration = Math.max(FLY_MIN_MS, Math.min(FLY_MAX_MS, length * FLY_MS_PER_UNIT));
+    this.animate(path, duration, easeInOutCubic);
+  }
+
+  // Direct manipulation: the world point under `from` follows the pointer
+  // to `to` while zoom scales by `factor` and the map turns clockwise by
+  // `twist` (a pinch; 1 and 0 for a plain drag). Remembers the pace for
+  // inertia.
+  drag(from: ScreenOffset, to: ScreenOffset, time: number, factor = 1, twist = 0) {
+    this.animation = null;
+    this.velocity = null;
+    const grabbed = screenOffsetToWorld(this.current, from);
+    const next = clampCamera({
+      ...this.current,
+      zoom: this.current.zoom * factor,
+      bearing: this.current.bearing - twist
+    });
+    const shift = screenOffsetToWorld(next, to);
+    this.current = {
+      ...next,
+      x: this.current.x + grabbed.x - shift.x,
+      y: this.current.y + grabbed.y - shift.y
+    };
+    this.samples.push({ x: this.current.x, y: this.current.y, time });
+    this.samples = this.samples.filter(sample => time - sample.time <= VELOCITY_WINDOW_MS);
+    this.onChange?.();
+  }
+
+  // Ends a drag; a quick flick keeps the map coasting
+  release(time: number) {
+    const recent = this.samples.filter(sample => time - sample.time <= VELOCITY_WINDOW_MS);
+    this.samples = [];
+    if (recent.length < 2) return;
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const elapsed = Math.max(1, last.time - first.time);
+    const velocity = { x: (last.x - first.x) / elapsed, y: (last.y - first.y) / elapsed };
+    if (Math.hypot(velocity.x, velocity.y) * this.current.zoom < INERTIA_RELEASE_SPEED) return;
+    this.velocity = velocity;
+    this.lastStep = null;
+    this.onChange?.();
+  }
+
+  stop() {
+    this.animation = null;
+    this.velocity = null;
+    this.samples = [];
+  }
+
+  step(now: number): boolean {
+    if (this.animation) {
+      const { path, start, duration, easing } = this.animation;
+      const t = Math.max(0, Math.min(1, (now - start) / duration));
+      this.current = path(easing(t));
+      if (t >= 1) this.animation = null;
+    } else if (this.velocity) {
+      const elapsed = this.lastStep === null ? 16 : Math.min(100, now - this.lastStep);
+      this.current = {
+        ...this.current,
+        x: this.current.x + this.velocity.x * elapsed,
+        y: this.current.y + this.velocity.y * elapsed
+      };
+      const decay = Math.pow(0.5, elapsed / INERTIA_HALF_LIFE_MS);
+      this.velocity = { x: this.velocity.x * decay, y: this.velocity.y * decay };
+      if (Math.hypot(this.velocity.x, this.velocity.y) * this.current.zoom < INERTIA_MIN_SPEED) this.velocity = null;
+    }
+    this.lastStep = now;
+    return this.isMoving;
+  }
+
+  // Where the camera is headed: the end of the running animation, if any
+  private goal(): Camera {
+    return this.animation ? this.animation.path(1) : this.current;
+  }
+
+  private animate(path: Path, duration: number, easing: (t: number) => number) {
+    this.velocity = null;
+    this.animation = { path, start: performance.now(), duration, easing };
+    this.onChange?.();
+  }
+}
@@ -1,95 +1,178 @@
-import { Camera } from "@/types/city";
+import { CameraMotion, ScreenOffset } from "@/lib/camera-motion";
 
+// Wheel travel, in pixels, that doubles or halves the zoom
+const WHEEL_PIXELS_PER_DOUBLING = 500;
+// Line-mode wheel deltas (Firefox) in pixels
+const WHEEL_LINE_PIXELS = 16;
+// Screen distance one arrow key press pans
+const KEY_PAN_PIXELS = 150;
+// Turn and tilt per pixel of rotate-drag
+const ROTATE_RADIANS_PER_PIXEL = 0.005;
+const TILT_RADIANS_PER_PIXEL = 0.005;
+// Zoom step for +/- keys and zoom buttons
+export const ZOOM_STEP = 1.5;
+
+const PAN_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+  a: [-1, 0],
+  d: [1, 0],
+  w: [0, -1],
+  s: [0, 1]
+};
+
+const ZOOM_KEYS: Record<string, number> = {
+  '+': ZOOM_STEP,
+  '=': ZOOM_STEP,
+  '-': 1 / ZOOM_STEP,
+  '_': 1 / ZOOM_STEP
+};
+
+// Keys typed into a form field are not navigation
+function isEditable(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+// Turns pointer, wheel and keyboard input on an element into camera motion.
+// One pointer drags the map; two pinch-zoom, pan and twist around their
+// midpoint. Right- or Shift-drag turns the map sideways and tilts it
+// up and down. The wheel zooms about the cursor, arrows/WASD pan and +/- zoom.
 export class CameraController {
-  private camera: Camera;
-  private canvas: HTMLCanvasElement;
-  private isDragging = false;
-  private lastMousePos = { x: 0, y: 0 };
-
-  constructor(canvas: HTMLCanvasElement) {
-    this.canvas = canvas;
-    this.camera = { x: 0, y: 0, zoom: 1 };
-    this.setupEventListeners();
-  }
+  // Client positions of the pointers currently held down on the element
+  private pointers = new Map<number, ScreenOffset>();
+  // The pointer rotate-dragging, and where it last was
+  private rotating: { id: number; last: ScreenOffset } | null = null;
+  // Pointer drags are left to a tool while this is false
+  panEnabled = true;
+  onDragChange: ((dragging: boolean) => void) | null = null;
 
-  private setupEventListeners() {
-    // Mouse events
-    this.canvas.addEventListener('mousedown', this.handleMouseDown.bind(this));
-    this.canvas.addEventListener('mousemove', this.handleMouseMove.bind(this));
-    this.canvas.addEventListener('mouseup', this.handleMouseUp.bind(this));
-    this.canvas.addEventListener('wheel', this.handleWheel.bind(this));
-
-    // Touch events
-    this.canvas.addEventListener('touchstart', this.handleTouchStart.bind(this));
-    this.canvas.addEventListener('touchmove', this.handleTouchMove.bind(this));
-    this.canvas.addEventListener('touchend', this.handleTouchEnd.bind(this));
+  constructor(private element: HTMLElement, private motion: CameraMotion) {
+    element.addEventListener('pointerdown', this.handlePointerDown);
+    element.addEventListener('pointermove', this.handlePointerMove);
+    element.addEventListener('pointerup', this.handlePointerUp);
+    element.addEventListener('pointercancel', this.handlePointerUp);
+    // Not passive, so the page doesn't scroll or zoom along with the map
+    element.addEventListener('wheel', this.handleWheel, { passive: false });
+    element.addEventListener('contextmenu', this.handleContextMenu);
+    window.addEventListener('keydown', this.handleKeyDown);
   }
 
-  private handleMouseDown(e: MouseEvent) {
-    this.isDragging = true;
-    this.lastMousePos = { x: e.clientX, y: e.clientY };
+  dispose() {
+    this.element.removeEventListener('pointerdown', this.handlePointerDown);
+    this.element.removeEventListener('pointermove', this.handlePointerMove);
+    this.element.removeEventListener('pointerup', this.handlePointerUp);
+    this.element.removeEventListener('pointercancel', this.handlePointerUp);
+    this.element.removeEventListener('wheel', this.handleWheel);
+    this.element.removeEventListener('contextmenu', this.handleContextMenu);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    this.pointers.clear();
+    this.rotating = null;
   }
 
-  private handleMouseMove(e: MouseEvent) {
-    if (this.isDragging) {
-      const deltaX = e.clientX - this.lastMousePos.x;
-      const deltaY = e.clientY - this.lastMousePos.y;
-      
-      this.camera.x += deltaX / this.camera.zoom;
-      this.camera.y += deltaY / this.camera.zoom;
-      
-      this.lastMousePos = { x: e.clientX, y: e.clientY };
-    }
+  // Zoom about a client position, e.g. the cursor
+  zoomAt(factor: number, clientX: number, clientY: number) {
+    this.motion.zoomAt(factor, this.toOffset({ x: clientX, y: clientY }));
   }
 
-  private handleMouseUp() {
-    this.isDragging = false;
+  // Client position relative to the element's centre
+  private toOffset(client: ScreenOffset): ScreenOffset {
+    const rect = this.element.getBoundingClientRect();
+    return { x: client.x - rect.left - rect.width / 2, y: client.y - rect.top - rect.height / 2 };
   }
 
-  private handleWheel(e: WheelEvent) {
-    e.preventDefault();
-    const zoomSpeed = 0.1;
-    const newZoom = this.camera.zoom * (1 - e.deltaY * zoomSpeed * 0.01);
-    this.camera.zoom = Math.max(0.5, Math.min(3, newZoom));
+  // Midpoint, spread and angle of the first two pointers, or the only one
+  private gesture(): { center: ScreenOffset; spread: number; angle: number } {
+    const [first, second] = Array.from(this.pointers.values());
+    if (!second) return { center: this.toOffset(first), spread: 0, angle: 0 };
+    return {
+      center: this.toOffset({ x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 }),
+      spread: Math.hypot(second.x - first.x, second.y - first.y),
+      angle: Math.atan2(second.y - first.y, second.x - first.x)
+    };
   }
 
-  private handleTouchStart(e: TouchEvent) {
-    e.preventDefault();
-    if (e.touches.length === 1) {
-      const touch = e.touches[0];
-      this.isDragging = true;
-      this.lastMousePos = { x: touch.clientX, y: touch.clientY };
+  private handlePointerDown = (e: PointerEvent) => {
+    if (this.rotating) return;
+    if ((e.pointerType === 'mouse' && e.button === 2) || (e.button === 0 && e.shiftKey && this.pointers.size === 0)) {
+      this.element.setPointerCapture(e.pointerId);
+      this.rotating = { id: e.pointerId, last: { x: e.clientX, y: e.clientY } };
+      this.motion.stop();
+      this.onDragChange?.(true);
+      return;
     }
-  }
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    if (!this.panEnabled) return;
+    this.element.setPointerCapture(e.pointerId);
+    this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    // Grabbing the map stops it coasting
+    this.motion.stop();
+    if (this.pointers.size === 1) this.onDragChange?.(true);
+  };
 
-  private handleTouchMove(e: TouchEvent) {
-    e.preventDefault();
-    if (this.isDragging && e.touches.length === 1) {
-      const touch = e.touches[0];
-      const deltaX = touch.clientX - this.lastMousePos.x;
-      const deltaY = touch.clientY - this.lastMousePos.y;
-      
-      this.camera.x += deltaX / this.camera.zoom;
-      this.camera.y += deltaY / this.camera.zoom;
-      
-      this.lastMousePos = { x: touch.clientX, y: touch.clientY };
+  private handlePointerMove = (e: PointerEvent) => {
+    if (this.rotating?.id === e.pointerId) {
+      const { last } = this.rotating;
+      // Sideways turns, dragging up tilts towards the horizon
+      this.motion.rotateBy((e.clientX - last.x) * ROTATE_RADIANS_PER_PIXEL, (last.y - e.clientY) * TILT_RADIANS_PER_PIXEL);
+      this.rotating.last = { x: e.clientX, y: e.clientY };
+      return;
     }
-  }
+    if (!this.pointers.has(e.pointerId)) return;
+    const before = this.gesture();
+    this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const after = this.gesture();
+    const pinching = before.spread > 0 && after.spread > 0;
+    this.motion.drag(before.center, after.center, e.timeStamp,
+      pinching ? after.spread / before.spread : 1,
+      pinching ? after.angle - before.angle : 0);
+  };
 
-  private handleTouchEnd(e: TouchEvent) {
-    e.preventDefault();
-    this.isDragging = false;
-  }
+  private handlePointerUp = (e: PointerEvent) => {
+    if (this.rotating?.id === e.pointerId) {
+      this.rotating = null;
+      if (this.element.hasPointerCapture(e.pointerId)) this.element.releasePointerCapture(e.pointerId);
+      this.onDragChange?.(false);
+      return;
+    }
+    if (!this.pointers.delete(e.pointerId)) return;
+    if (this.element.hasPointerCapture(e.pointerId)) this.element.releasePointerCapture(e.pointerId);
+    if (this.pointers.size > 0) {
+      // Lifting one finger of a pinch carries on as a drag from here
+      this.motion.stop();
+      return;
+    }
+    this.motion.release(e.timeStamp);
+    this.onDragChange?.(false);
+  };
 
-  getCamera(): Camera {
-    return { ...this.camera };
-  }
+  // Proportional to wheel travel, so trackpads zoom smoothly too
+  private handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    const pixels = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * WHEEL_LINE_PIXELS : e.deltaY;
+    this.zoomAt(Math.pow(2, -pixels / WHEEL_PIXELS_PER_DOUBLING), e.clientX, e.clientY);
+  };
 
-  resetCamera() {
-    this.camera = { x: 0, y: 0, zoom: 1 };
-  }
+  // Right-drag rotates instead of opening the menu
+  private handleContextMenu = (e: MouseEvent) => {
+    e.preventDefault();
+  };
 
-  getZoomPercentage(): number {
-    return Math.round(this.camera.zoom * 100);
-  }
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || isEditable(e.target)) return;
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    const pan = PAN_KEYS[key];
+    if (pan) {
+      e.preventDefault();
+      this.motion.panBy(pan[0] * KEY_PAN_PIXELS, pan[1] * KEY_PAN_PIXELS);
+      return;
+    }
+    const zoom = ZOOM_KEYS[key];
+    if (zoom) {
+      e.preventDefault();
+      this.motion.zoomBy(zoom);
+    }
+  };
 }
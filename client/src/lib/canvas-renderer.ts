@@ -0,0 +1,316 @@
+import { Building, Point, RoadEdge } from "@/types/road-network";
+import { Camera } from "@/types/city";
+import { CityEngine } from "@/lib/city-engine";
+import { PopulationImage } from "@/lib/population";
+import {
+  BACKGROUND_COLOR,
+  BLOCK_OUTLINE_COLOR,
+  BRIDGE_CASING,
+  BRIDGE_CASING_COLOR,
+  CENTER_RING_COLOR,
+  DEBUG_NODE_COLOR,
+  DEBUG_NODE_RADIUS,
+  detailLevel,
+  ERASE_COLOR,
+  HIGHWAY_COLOR,
+  junctionMarkings,
+  LABEL_COLOR,
+  LABEL_SIZE,
+  LABEL_STROKE,
+  LOT_LINE_COLOR,
+  MARKING_COLOR,
+  MIN_LABEL_PIXELS,
+  PAINT_COLOR,
+  PARK_COLOR,
+  ROAD_MARKINGS_ZOOM,
+  STOP_LINE_WIDTH,
+  STREET_COLOR,
+  streetLabel,
+  TOWER_TINT
+} from "@/lib/render-style";
+import { RasterLayer, Renderer, RenderOptions, RenderScene } from "@/lib/renderer";
+import { SceneIndex } from "@/lib/scene-index";
+import { liftVector, screenUp, visibleBounds } from "@/lib/view-transform";
+
+const EMPTY_SCENE: RenderScene = {
+  segments: [],
+  network: null,
+  blocks: [],
+  parcels: [],
+  buildings: [],
+  relief: null,
+  heatmap: null
+};
+
+function tracePolygon(ctx: CanvasRenderingContext2D, points: Point[]) {
+  points.forEach((point, i) => i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+  ctx.closePath();
+}
+
+// Footprint with its courtyard cut out; towers read lighter than their podium
+function drawBuilding(ctx: CanvasRenderingContext2D, building: Building) {
+  ctx.fillStyle = building.color;
+  ctx.beginPath();
+  tracePolygon(ctx, building.footprint);
+  if (building.courtyard) tracePolygon(ctx, building.courtyard);
+  ctx.fill('evenodd');
+
+  if (building.tower) {
+    ctx.fillStyle = TOWER_TINT;
+    ctx.beginPath();
+    tracePolygon(ctx, building.tower.footprint);
+    ctx.fill();
+  }
+}
+
+// Fills polygons sharing a colour as one path each
+function fillBatched<T>(ctx: CanvasRenderingContext2D, items: T[], color: (item: T) => string | undefined, points: (item: T) => Point[]) {
+  const batches = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = color(item);
+    if (key === undefined) return;
+    const batch = batches.get(key);
+    if (batch) batch.push(item);
+    else batches.set(key, [item]);
+  });
+  batches.forEach((batch, key) => {
+    ctx.fillStyle = key;
+    ctx.beginPath();
+    batch.forEach(item => tracePolygon(ctx, points(item)));
+    ctx.fill();
+  });
+}
+
+// Strokes edges of the same colour and width as one path each
+function strokeEdges(ctx: CanvasRenderingContext2D, edges: RoadEdge[], color: (edge: RoadEdge) => string, width: (edge: RoadEdge) => number) {
+  const batches = new Map<string, RoadEdge[]>();
+  edges.forEach(edge => {
+    const key = `${color(edge)}|${width(edge)}`;
+    const batch = batches.get(key);
+    if (batch) batch.push(edge);
+    else batches.set(key, [edge]);
+  });
+  batches.forEach(batch => {
+    ctx.strokeStyle = color(batch[0]);
+    ctx.lineWidth = width(batch[0]);
+    ctx.beginPath();
+    batch.forEach(edge => {
+      ctx.moveTo(edge.start.x, edge.start.y);
+      ctx.lineTo(edge.end.x, edge.end.y);
+    });
+    ctx.stroke();
+  });
+}
+
+// Raster pixels as something drawImage accepts
+function toCanvas(image: PopulationImage): CanvasImageSource {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(image.width, image.height)
+    : Object.assign(document.createElement('canvas'), { width: image.width, height: image.height });
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  const pixels = ctx.createImageData(image.width, image.height);
+  pixels.data.set(image.data);
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+}
+
+// Immediate-mode fallback: redraws what is on screen each frame, batching
+// paths that share a style
+export class Canvas2DRenderer implements Renderer {
+  readonly kind = 'canvas2d';
+  private scene = EMPTY_SCENE;
+  private index = new SceneIndex(EMPTY_SCENE);
+  private engine = new CityEngine([]);
+  private rasters = new Map<RasterLayer, CanvasImageSource>();
+
+  constructor(private ctx: CanvasRenderingContext2D) {}
+
+  setScene(scene: RenderScene) {
+    if (scene.buildings !== this.scene.buildings) this.engine = new CityEngine(scene.buildings);
+    if (scene.network !== this.scene.network || scene.segments !== this.scene.segments || scene.blocks !== this.scene.blocks ||
+        scene.parcels !== this.scene.parcels || scene.buildings !== this.scene.buildings) {
+      this.index = new SceneIndex(scene);
+    }
+    // Keep converted rasters only for layers still in the scene
+    this.rasters.forEach((_, layer) => {
+      if (layer !== scene.relief && layer !== scene.heatmap) this.rasters.delete(layer);
+    });
+    this.scene = scene;
+  }
+
+  resize(width: number, height: number) {
+    this.ctx.canvas.width = width;
+    this.ctx.canvas.height = height;
+  }
+
+  dispose() {
+    this.rasters.clear();
+  }
+
+  private drawRaster(layer: RasterLayer) {
+    let image = this.rasters.get(layer);
+    if (!image) {
+      image = toCanvas(layer.image);
+      this.rasters.set(layer, image);
+    }
+    const { bounds } = layer;
+    this.ctx.drawImage(image, bounds.x, bounds.y, bounds.width, bounds.height);
+  }
+
+  render(camera: Camera, options: RenderOptions) {
+    const { ctx, scene } = this;
+    const { width, height } = ctx.canvas;
+
+    // Asphalt background - fundo de asfalto
+    ctx.fillStyle = BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.scale(camera.zoom, camera.zoom * Math.cos(camera.pitch));
+    ctx.rotate(-camera.bearing);
+    ctx.translate(-camera.x, -camera.y);
+
+    if (scene.relief) this.drawRaster(scene.relief);
+
+    if (options.showHeatmap) {
+      if (scene.heatmap) this.drawRaster(scene.heatmap);
+
+      ctx.strokeStyle = CENTER_RING_COLOR;
+      ctx.lineWidth = 2 / camera.zoom;
+      options.centers.forEach(center => {
+        ctx.beginPath();
+        ctx.arc(center.x, center.y, center.radius, 0, Math.PI * 2);
+        ctx.stroke();
+      });
+
+      options.strokes.forEach(stroke => {
+        ctx.fillStyle = stroke.strength > 0 ? PAINT_COLOR : ERASE_COLOR;
+        ctx.beginPath();
+        ctx.arc(stroke.x, stroke.y, stroke.radius, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+
+    const view = visibleBounds(camera, width, height);
+    const level = detailLevel(camera.zoom);
+    const { index } = this;
+
+    if (options.showCityBlocks) {
+      const blocks = index.blocks(view);
+      fillBatched(ctx, blocks, block => block.color, block => block.points);
+      ctx.strokeStyle = BLOCK_OUTLINE_COLOR;
+      ctx.lineWidth = 1 / camera.zoom;
+      ctx.beginPath();
+      blocks.forEach(block => tracePolygon(ctx, block.points));
+      ctx.stroke();
+
+      // Lot lines
+      if (level === 'buildings') {
+        ctx.strokeStyle = LOT_LINE_COLOR;
+        ctx.beginPath();
+        index.parcels(view).forEach(parcel => tracePolygon(ctx, parcel.points));
+        ctx.stroke();
+      }
+    } else if (level !== 'buildings') {
+      // Blocks in their main land use stand in for buildings too small to see
+      fillBatched(ctx, index.blocks(view), block => index.blockFills.get(block.id), block => block.points);
+    }
+
+    // Parks
+    if (level === 'buildings') {
+      fillBatched(ctx, index.parcels(view), parcel => parcel.landUse === 'park' ? PARK_COLOR : undefined, parcel => parcel.points);
+    }
+
+    // Draw unified road network - properly connected roads without separate circles
+    if (scene.network) {
+      const { nodes } = scene.network;
+      // Highways on top where they cross streets on a bridge
+      const edges = level === 'overview' ? index.highways(view) : [...index.streets(view), ...index.highways(view)];
+      const junctions = index.junctions(view).filter(junction => level !== 'overview' || junction.isHighway);
+      ctx.lineCap = 'butt';
+
+      // Bridge decks get a pale casing so they read over water
+      strokeEdges(ctx, edges.filter(edge => edge.bridge), () => BRIDGE_CASING_COLOR, edge => edge.width + BRIDGE_CASING * 2);
+
+      // Edges stop at the junction polygons, which fill the joins
+      strokeEdges(ctx, edges, edge => edge.highway ? HIGHWAY_COLOR : STREET_COLOR, edge => edge.width);
+      fillBatched(ctx, junctions, junction => junction.isHighway ? HIGHWAY_COLOR : STREET_COLOR, junction => junction.polygon);
+
+      if (camera.zoom >= ROAD_MARKINGS_ZOOM) {
+        ctx.fillStyle = MARKING_COLOR;
+        ctx.strokeStyle = MARKING_COLOR;
+        ctx.lineWidth = STOP_LINE_WIDTH;
+        const markings = junctions.map(junctionMarkings);
+        ctx.beginPath();
+        markings.forEach(({ stripes }) => stripes.forEach(stripe => tracePolygon(ctx, stripe)));
+        ctx.fill();
+        ctx.beginPath();
+        markings.forEach(({ stopLines }) => stopLines.forEach(([from, to]) => {
+          ctx.moveTo(from.x, from.y);
+          ctx.lineTo(to.x, to.y);
+        }));
+        ctx.stroke();
+      }
+
+      // Show junction nodes (3+ edges) for debugging if needed
+      if (options.showDebug) {
+        ctx.fillStyle = DEBUG_NODE_COLOR;
+        ctx.beginPath();
+        junctions.forEach(junction => {
+          const node = nodes[junction.nodeId];
+          if (node.edges.length < 3) return;
+          ctx.moveTo(node.point.x + DEBUG_NODE_RADIUS, node.point.y);
+          ctx.arc(node.point.x, node.point.y, DEBUG_NODE_RADIUS, 0, Math.PI * 2);
+        });
+        ctx.fill();
+      }
+    }
+
+    // Show original segments for comparison when debug is enabled and unified network is not available
+    if (!scene.network && options.showDebug) {
+      ctx.lineCap = 'round';
+      index.segments(view).forEach(segment => {
+        ctx.strokeStyle = segment.highway ? HIGHWAY_COLOR : STREET_COLOR;
+        ctx.lineWidth = segment.width;
+        ctx.beginPath();
+        ctx.moveTo(segment.start.x, segment.start.y);
+        ctx.lineTo(segment.end.x, segment.end.y);
+        ctx.stroke();
+      });
+    }
+
+    // Street labels on whichever roads are drawn
+    if ((scene.network || options.showDebug) && level === 'buildings' && LABEL_SIZE * camera.zoom >= MIN_LABEL_PIXELS) {
+      ctx.lineCap = 'butt';
+      ctx.strokeStyle = LABEL_COLOR;
+      ctx.lineWidth = LABEL_STROKE;
+      ctx.beginPath();
+      index.segments(view).forEach(segment => streetLabel(segment).forEach(([from, to]) => {
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+      }));
+      ctx.stroke();
+    }
+
+    // Draw buildings
+    if (level === 'buildings') {
+      if (options.viewMode === 'oblique') {
+        this.engine.render(ctx, view, screenUp(camera), liftVector(camera), camera.zoom);
+      } else {
+        index.buildings(view).forEach(building => drawBuilding(ctx, building));
+      }
+    }
+
+    // Hovered and inspected items, raised to their roofs in the 2.5D view
+    const leanBy = liftVector(camera);
+    options.highlights.forEach(highlight => {
+      ctx.fillStyle = highlight.color;
+      ctx.beginPath();
+      tracePolygon(ctx, highlight.points.map(p => ({ x: p.x + leanBy.x * highlight.height, y: p.y + leanBy.y * highlight.height })));
+      ctx.fill();
+    });
+
+    ctx.restore();
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { Point, RoadSegmentInput } from "@/types/road-network";
+import { findCityBlocks } from "@/lib/city-blocks";
+import { pointInPolygon } from "@/lib/geometry";
+import { Random } from "@/lib/random";
+import { buildUnifiedRoadNetwork } from "@/lib/unified-road-network";
+
+// Closed loop of roads through the given corners
+function loop(corners: Point[], firstId = 0): RoadSegmentInput[] {
+  return corners.map((start, i) => ({
+    id: firstId + i,
+    start,
+    end: corners[(i + 1) % corners.length],
+    width: 8,
+    highway: false,
+    bridge: false
+  }));
+}
+
+function square(min: number, max: number): Point[] {
+  return [{ x: min, y: min }, { x: max, y: min }, { x: max, y: max }, { x: min, y: max }];
+}
+
+describe('findCityBlocks', () => {
+  it('turns a road loop into one inset block', () => {
+    const blocks = findCityBlocks(buildUnifiedRoadNetwork(loop(square(0, 400)), 10), new Random(1));
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].area).toBeCloseTo(386 * 386, 0);
+  });
+
+  it('drops a block with a separate road loop inside it', () => {
+    const roads = [...loop(square(0, 400)), ...loop(square(150, 250), 4)];
+    const blocks = findCityBlocks(buildUnifiedRoadNetwork(roads, 10), new Random(1));
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].area).toBeCloseTo(86 * 86, 0);
+  });
+
+  it('leaves a cul-de-sac inside a block uncovered', () => {
+    const culDeSac: RoadSegmentInput = {
+      id: 4, start: { x: 0, y: 200 }, end: { x: 250, y: 200 }, width: 8, highway: false, bridge: false
+    };
+    const blocks = findCityBlocks(buildUnifiedRoadNetwork([...loop(square(0, 400)), culDeSac], 10), new Random(1));
+    expect(blocks).toHaveLength(1);
+    for (let x = 10; x <= 254; x += 4) {
+      for (const y of [197, 200, 203]) {
+        expect(pointInPolygon({ x, y }, blocks[0].points)).toBe(false);
+      }
+    }
+    expect(blocks[0].area).toBeLessThan(386 * 386 - 2 * 6 * 250);
+  });
+});
@@ -0,0 +1,230 @@
+import { CityBlock, Point, RoadEdge, UnifiedRoadNetwork } from "@/types/road-network";
+import { isSelfIntersecting, pointInPolygon, polygonArea } from "@/lib/geometry";
+import { Random } from "@/lib/random";
+
+// Gap between the road's edge and the block boundary
+const SIDEWALK_WIDTH = 3;
+// Slivers smaller than this are dropped
+const MIN_BLOCK_AREA = 200;
+// Miters longer than this many times the offset are beveled
+const MITER_LIMIT = 4;
+
+const BLOCK_COLORS = [
+  '#2a2a2a', // Dark gray for city blocks
+  '#252525',
+  '#2f2f2f',
+  '#1a1a1a',
+  '#353535'
+];
+
+// Boundary vertex; `edge` is the road edge the boundary runs along from this
+// vertex to the next one
+interface LabeledPoint extends Point {
+  edge: number;
+}
+
+interface HalfEdge {
+  from: number;
+  to: number;
+  edge: number;
+  angle: number;
+}
+
+// Enumerates the faces of the planar road graph with half-edges. A dead-end
+// road is walked up one side and back down the other, so it stays in the
+// boundary of the face it pokes into. The outer face of each connected
+// component winds clockwise and is skipped. A face with another component
+// inside it is dropped too: blocks have no holes, so it would overlap that
+// component's roads, while the inner loop's own faces remain.
+function findFaces(network: UnifiedRoadNetwork): LabeledPoint[][] {
+  const { nodes, edges } = network;
+
+  // Outgoing half-edges per node, counter-clockwise by angle
+  const outgoing: HalfEdge[][] = nodes.map(() => []);
+  edges.forEach(edge => {
+    const a = nodes[edge.from].point;
+    const b = nodes[edge.to].point;
+    outgoing[edge.from].push({ from: edge.from, to: edge.to, edge: edge.id, angle: Math.atan2(b.y - a.y, b.x - a.x) });
+    outgoing[edge.to].push({ from: edge.to, to: edge.from, edge: edge.id, angle: Math.atan2(a.y - b.y, a.x - b.x) });
+  });
+  outgoing.forEach(list => list.sort((a, b) => a.angle - b.angle));
+
+  // Connected component of each node
+  const component: number[] = nodes.map(() => -1);
+  nodes.forEach(node => {
+    if (component[node.id] >= 0) return;
+    component[node.id] = node.id;
+    const queue = [node.id];
+    while (queue.length > 0) {
+      const id = queue.pop()!;
+      outgoing[id].forEach(half => {
+        if (component[half.to] >= 0) return;
+        component[half.to] = node.id;
+        queue.push(half.to);
+      });
+    }
+  });
+
+  const visited = new Set<HalfEdge>();
+  const faces: Array<{ points: LabeledPoint[]; component: number }> = [];
+  // One boundary point per component's outer face
+  const outerPoints: Array<{ point: Point; component: number }> = [];
+
+  outgoing.forEach(list => list.forEach(start => {
+    if (visited.has(start)) return;
+    const face: LabeledPoint[] = [];
+    let current = start;
+
+    // Turning to the next clockwise edge at each node keeps the face on the
+    // left; at a dead end that is the way back
+    while (!visited.has(current)) {
+      visited.add(current);
+      face.push({ ...nodes[current.from].point, edge: current.edge });
+      const around = outgoing[current.to];
+      const twin = around.findIndex(h => h.to === current.from && h.edge === current.edge);
+      current = around[(twin - 1 + around.length) % around.length];
+    }
+
+    if (current !== start || face.length < 3) return;
+    if (polygonArea(face) > 0) faces.push({ points: face, component: component[start.from] });
+    else outerPoints.push({ point: face[0], component: component[start.from] });
+  }));
+
+  return faces
+    .filter(face => !outerPoints.some(outer => outer.component !== face.component && pointInPolygon(outer.point, face.points)))
+    .map(face => face.points);
+}
+
+function intersectLines(p: Point, d: Point, q: Point, e: Point): Point | null {
+  const denom = d.x * e.y - d.y * e.x;
+  if (Math.abs(denom) < 1e-9) return null;
+  const s = ((q.x - p.x) * e.y - (q.y - p.y) * e.x) / denom;
+  return { x: p.x + d.x * s, y: p.y + d.y * s };
+}
+
+interface OffsetLine {
+  point: Point;
+  dir: Point;
+  edge: number;
+}
+
+// Each boundary edge moved inward (to its left) by its own distance
+function offsetLines(face: LabeledPoint[], distance: (edge: number) => number): OffsetLine[] {
+  return face.map((a, i) => {
+    const b = face[(i + 1) % face.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const dir = { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+    const d = distance(a.edge);
+    return { point: { x: a.x - dir.y * d, y: a.y + dir.x * d }, dir, edge: a.edge };
+  });
+}
+
+// Mitered inset; null when the result folds over itself
+function miterOffset(face: LabeledPoint[], lines: OffsetLine[], distance: (edge: number) => number): LabeledPoint[] | null {
+  const result: LabeledPoint[] = [];
+  // Line each result edge lies on; -1 for bevels
+  const lineOf: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const prev = lines[(i - 1 + lines.length) % lines.length];
+    const line = lines[i];
+    const corner = intersectLines(prev.point, prev.dir, line.point, line.dir);
+    const d = Math.max(distance(prev.edge), distance(line.edge));
+
+    if (!corner && prev.dir.x * line.dir.x + prev.dir.y * line.dir.y < 0) {
+      // Dead end: square cap past the end of the road, then back down the
+      // other side
+      const reach = distance(line.edge);
+      result.push(
+        {
+          x: face[i].x + (prev.dir.x - prev.dir.y) * reach,
+          y: face[i].y + (prev.dir.y + prev.dir.x) * reach,
+          edge: line.edge
+        },
+        { x: line.point.x + prev.dir.x * reach, y: line.point.y + prev.dir.y * reach, edge: line.edge }
+      );
+      lineOf.push(-1, i);
+    } else if (!corner) {
+      // Straight continuation
+      result.push({ ...line.point, edge: line.edge });
+      lineOf.push(i);
+    } else if (prev.dir.x * line.dir.y - prev.dir.y * line.dir.x > 0 &&
+      Math.hypot(corner.x - face[i].x, corner.y - face[i].y) > d * MITER_LIMIT) {
+      // Bevel very sharp convex corners
+      result.push(
+        { x: face[i].x - prev.dir.y * distance(prev.edge), y: face[i].y + prev.dir.x * distance(prev.edge), edge: line.edge },
+        { ...line.point, edge: line.edge }
+      );
+      lineOf.push(-1, i);
+    } else {
+      result.push({ ...corner, edge: line.edge });
+      lineOf.push(i);
+    }
+  }
+
+  // Any offset edge that reversed direction means part of the block collapsed
+  for (let i = 0; i < result.length; i++) {
+    if (lineOf[i] < 0) continue;
+    const a = result[i];
+    const b = result[(i + 1) % result.length];
+    const { dir } = lines[lineOf[i]];
+    if ((b.x - a.x) * dir.x + (b.y - a.y) * dir.y < -1e-6) return null;
+  }
+  if (polygonArea(result) <= 0 || isSelfIntersecting(result)) return null;
+  return result;
+}
+
+// Sutherland–Hodgman against each offset line's inner half-plane. Exact for
+// convex blocks and never overlaps a road on concave ones.
+function clipOffset(face: LabeledPoint[], lines: OffsetLine[]): LabeledPoint[] {
+  let polygon = face;
+  for (const line of lines) {
+    const inside = (p: Point) => line.dir.x * (p.y - line.point.y) - line.dir.y * (p.x - line.point.x) >= 0;
+    const next: LabeledPoint[] = [];
+
+    polygon.forEach((a, i) => {
+      const b = polygon[(i + 1) % polygon.length];
+      const aIn = inside(a);
+      const bIn = inside(b);
+      if (aIn) next.push(a);
+      if (aIn !== bIn) {
+        const crossing = intersectLines(a, { x: b.x - a.x, y: b.y - a.y }, line.point, line.dir);
+        // Leaving runs along the clip line; entering resumes the original edge
+        if (crossing) next.push({ ...crossing, edge: aIn ? line.edge : a.edge });
+      }
+    });
+
+    polygon = next;
+    if (polygon.length < 3) return [];
+  }
+  return polygon;
+}
+
+// City blocks are the bounded faces of the planar road network, inset from
+// each bordering road by half its width plus a sidewalk
+export function findCityBlocks(network: UnifiedRoadNetwork, random: Random): CityBlock[] {
+  const blocks: CityBlock[] = [];
+  const edges: RoadEdge[] = network.edges;
+  const distance = (edge: number) => edges[edge].width / 2 + SIDEWALK_WIDTH;
+
+  findFaces(network).forEach(face => {
+    const lines = offsetLines(face, distance);
+    // Clipping cuts away both sides of a dead end, so a block with one needs
+    // a clean miter
+    const deadEnd = face.some((point, i) => point.edge === face[(i + 1) % face.length].edge);
+    const points = miterOffset(face, lines, distance) ?? (deadEnd ? [] : clipOffset(face, lines));
+    if (points.length < 3) return;
+
+    const area = polygonArea(points);
+    if (area < MIN_BLOCK_AREA) return;
+
+    blocks.push({
+      id: blocks.length,
+      points: points.map(({ x, y }) => ({ x, y })),
+      frontage: points.map(point => point.edge),
+      area,
+      color: random.pick(BLOCK_COLORS)
+    });
+  });
+
+  return blocks;
+}
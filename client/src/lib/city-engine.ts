@@ -1,160 +1,259 @@
-import { Building, Window, CityParameters } from "@/types/city";
+import { Building, Point } from "@/types/road-network";
+import { FLOOR_HEIGHT } from "@/lib/buildings";
+import { Bounds, expandBounds, polygonBounds, SpatialGrid } from "@/lib/spatial-index";
 
-export class CityEngine {
-  private ctx: CanvasRenderingContext2D;
-  private canvas: HTMLCanvasElement;
-  private buildings: Building[] = [];
+export type ViewMode = 'plan' | 'oblique';
 
-  constructor(canvas: HTMLCanvasElement) {
-    this.canvas = canvas;
-    this.ctx = canvas.getContext('2d')!;
-  }
+// Tilt the 2.5D view takes on when entered from a flat camera, leaning
+// roofs about as far as a building is tall
+export const OBLIQUE_PITCH = Math.atan(0.7);
+// Walls facing this way are brightest; the sun stays put as the view turns
+const LIGHT_DIR = { x: -Math.SQRT1_2, y: Math.SQRT1_2 };
+export const WINDOW_SPACING = 4;
+export const WINDOW_SIZE = 1.4;
+// Windows are skipped once they would be smaller than this on screen
+export const MIN_WINDOW_PIXELS = 2;
+export const LIT_WINDOW_COLOR = '#fbbf24';
+export const DARK_WINDOW_COLOR = '#1f2937';
+// Culling grid cell size, in world units
+const CULL_CELL_SIZE = 250;
 
-  generateCity(params: CityParameters): Building[] {
-    this.buildings = [];
-    const gridSize = params.streetWidth;
-    const buildingDensity = params.buildingDensity;
-    const maxHeight = params.buildingHeight;
-    const variation = params.variation / 100;
-    
-    const cityWidth = params.citySize * 10;
-    const cityHeight = params.citySize * 10;
-
-    for (let x = -cityWidth/2; x < cityWidth/2; x += gridSize) {
-      for (let y = -cityHeight/2; y < cityHeight/2; y += gridSize) {
-        if (Math.random() < buildingDensity) {
-          const building: Building = {
-            x: x + (Math.random() - 0.5) * gridSize * variation,
-            y: y + (Math.random() - 0.5) * gridSize * variation,
-            width: gridSize * 0.7 + Math.random() * gridSize * 0.2 * variation,
-            height: gridSize * 0.7 + Math.random() * gridSize * 0.2 * variation,
-            depth: 20 + Math.random() * maxHeight,
-            color: this.generateBuildingColor(),
-            windows: this.generateWindows()
-          };
-          this.buildings.push(building);
-        }
-      }
-    }
+export interface Wall {
+  a: Point;
+  b: Point;
+  // Outward normal
+  normal: Point;
+  base: number;
+  top: number;
+  // Shaded by how squarely the wall faces the light
+  color: string;
+}
 
-    return this.buildings;
-  }
+// Extruded part of a building: the podium, or the tower standing on it
+export interface Volume {
+  walls: Wall[];
+  // Roof outline, and the courtyard opening in it
+  roof: Point[];
+  hole: Point[] | null;
+  top: number;
+  roofColor: string;
+}
 
-  private generateBuildingColor(): string {
-    const colors = [
-      '#2563eb', '#1d4ed8', '#1e40af', '#1e3a8a',
-      '#374151', '#4b5563', '#6b7280', '#9ca3af',
-      '#06b6d4', '#0891b2', '#0e7490', '#155e75'
-    ];
-    return colors[Math.floor(Math.random() * colors.length)];
-  }
+function dot(a: Point, b: Point): number {
+  return a.x * b.x + a.y * b.y;
+}
 
-  private generateWindows(): Window[] {
-    const windows: Window[] = [];
-    const windowCount = Math.floor(Math.random() * 20) + 5;
-    
-    for (let i = 0; i < windowCount; i++) {
-      windows.push({
-        x: Math.random(),
-        y: Math.random(),
-        lit: Math.random() > 0.3
-      });
-    }
-    
-    return windows;
-  }
+// Integer hash for stable per-window lighting. WINDOW_HASH_GLSL is the same
+// hash in 32-bit unsigned arithmetic, so both renderers light the same
+// windows.
+const WINDOW_HASH = [0x9e3779b1, 0x7f4a7c15, 0x85ebca6b, 0x165667b1, 0xc2b2ae35, 0x2c1b3c6d];
+// About 70% of windows are lit
+const LIT_WINDOW_THRESHOLD = Math.floor(0.3 * 2 ** 32);
 
-  render(camera: { x: number; y: number; zoom: number }) {
-    // Clear canvas
-    this.ctx.fillStyle = '#0f172a';
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+function hash(a: number, b: number, c: number): number {
+  const [k0, k1, k2, k3, k4, k5] = WINDOW_HASH;
+  let h = Math.imul(a, k0) ^ Math.imul(b + k1, k2) ^ Math.imul(c + k3, k4);
+  h ^= h >>> 15;
+  h = Math.imul(h, k5);
+  return (h ^ (h >>> 12)) >>> 0;
+}
 
-    // Save context for camera transform
-    this.ctx.save();
-    
-    // Apply camera transform
-    this.ctx.translate(this.canvas.width / 2 + camera.x, this.canvas.height / 2 + camera.y);
-    this.ctx.scale(camera.zoom, camera.zoom);
+export function isWindowLit(building: number, face: number, floor: number, bay: number): boolean {
+  return hash(building, face * 1024 + floor, bay) > LIT_WINDOW_THRESHOLD;
+}
 
-    // Sort buildings by depth for proper 3D rendering
-    const sortedBuildings = [...this.buildings].sort((a, b) => a.y + a.height - (b.y + b.height));
+const glslUint = (value: number) => `0x${value.toString(16)}u`;
 
-    // Render buildings
-    sortedBuildings.forEach(building => {
-      this.renderBuilding(building);
-    });
+export const WINDOW_HASH_GLSL = `
+bool isWindowLit(uint building, uint face, uint storey, uint bay) {
+  uint h = building * ${glslUint(WINDOW_HASH[0])}
+    ^ (face * 1024u + storey + ${glslUint(WINDOW_HASH[1])}) * ${glslUint(WINDOW_HASH[2])}
+    ^ (bay + ${glslUint(WINDOW_HASH[3])}) * ${glslUint(WINDOW_HASH[4])};
+  h ^= h >> 15u;
+  h *= ${glslUint(WINDOW_HASH[5])};
+  return (h ^ (h >> 12u)) > ${glslUint(LIT_WINDOW_THRESHOLD)};
+}`;
 
-    // Restore context
-    this.ctx.restore();
-  }
+// Adjusts the lightness of an `hsl(h, s%, l%)` colour by `amount` points
+function shade(color: string, amount: number): string {
+  const match = /hsl\(\s*([\d.]+),\s*([\d.]+)%,\s*([\d.]+)%\s*\)/.exec(color);
+  if (!match) return color;
+  const lightness = Math.max(0, Math.min(100, Number(match[3]) + amount));
+  return `hsl(${match[1]}, ${match[2]}%, ${lightness}%)`;
+}
 
-  private renderBuilding(building: Building) {
-    const { x, y, width, height, depth, color, windows } = building;
-
-    // Building base (front face)
-    this.ctx.fillStyle = color;
-    this.ctx.fillRect(x, y, width, height);
-
-    // Building top (roof)
-    this.ctx.fillStyle = this.lightenColor(color, 0.2);
-    this.ctx.beginPath();
-    this.ctx.moveTo(x, y);
-    this.ctx.lineTo(x + width, y);
-    this.ctx.lineTo(x + width + depth * 0.5, y - depth * 0.5);
-    this.ctx.lineTo(x + depth * 0.5, y - depth * 0.5);
-    this.ctx.closePath();
-    this.ctx.fill();
-
-    // Building side (right face)
-    this.ctx.fillStyle = this.darkenColor(color, 0.3);
-    this.ctx.beginPath();
-    this.ctx.moveTo(x + width, y);
-    this.ctx.lineTo(x + width, y + height);
-    this.ctx.lineTo(x + width + depth * 0.5, y + height - depth * 0.5);
-    this.ctx.lineTo(x + width + depth * 0.5, y - depth * 0.5);
-    this.ctx.closePath();
-    this.ctx.fill();
-
-    // Windows
-    windows.forEach(window => {
-      const windowX = x + window.x * width * 0.8 + width * 0.1;
-      const windowY = y + window.y * height * 0.8 + height * 0.1;
-      const windowSize = 3;
-
-      this.ctx.fillStyle = window.lit ? '#fbbf24' : '#1f2937';
-      this.ctx.fillRect(windowX, windowY, windowSize, windowSize);
-    });
+// Every wall of a ring, whichever way it faces. `outward` is +1 for
+// outlines and -1 for courtyard holes, whose walls face into the hole.
+function ringWalls(ring: Point[], base: number, top: number, outward: number, color: string): Wall[] {
+  const walls: Wall[] = [];
+  ring.forEach((a, i) => {
+    const b = ring[(i + 1) % ring.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length < 1e-6) return;
+    // Counter-clockwise rings have their outside on the right
+    const normal = { x: (b.y - a.y) / length * outward, y: -(b.x - a.x) / length * outward };
+    // Walls turned away from the light read darker
+    walls.push({ a, b, normal, base, top, color: shade(color, -12 + dot(normal, LIGHT_DIR) * 8) });
+  });
+  return walls;
+}
 
-    // Building outline
-    this.ctx.strokeStyle = '#1e293b';
-    this.ctx.lineWidth = 0.5;
-    this.ctx.strokeRect(x, y, width, height);
+// A building's volumes, bottom up. These do not depend on the view, so
+// renderers can keep them while the camera turns.
+export function buildingVolumes(building: Building): Volume[] {
+  const roofColor = shade(building.color, 12);
+  const volumes: Volume[] = [{
+    walls: [
+      ...ringWalls(building.footprint, 0, building.height, 1, building.color),
+      ...(building.courtyard ? ringWalls(building.courtyard, 0, building.height, -1, building.color) : [])
+    ],
+    roof: building.footprint,
+    hole: building.courtyard,
+    top: building.height,
+    roofColor
+  }];
+  if (building.tower) {
+    volumes.push({
+      walls: ringWalls(building.tower.footprint, building.height, building.tower.height, 1, building.color),
+      roof: building.tower.footprint,
+      hole: null,
+      top: building.tower.height,
+      roofColor
+    });
   }
+  return volumes;
+}
 
-  private lightenColor(color: string, factor: number): string {
-    const hex = color.replace('#', '');
-    const r = parseInt(hex.substr(0, 2), 16);
-    const g = parseInt(hex.substr(2, 2), 16);
-    const b = parseInt(hex.substr(4, 2), 16);
+function lift(p: Point, z: number, by: Point): Point {
+  return { x: p.x + z * by.x, y: p.y + z * by.y };
+}
 
-    return `rgb(${Math.min(255, r + r * factor)}, ${Math.min(255, g + g * factor)}, ${Math.min(255, b + b * factor)})`;
-  }
+function centroid(points: Point[]): Point {
+  const sum = points.reduce((total, p) => ({ x: total.x + p.x, y: total.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+// Window layout along a wall: whole bays and storeys, centred along its
+// length. `offset` is where the first bay starts, from the wall's start.
+export function windowGrid(wall: Wall): { bays: number; floors: number; offset: number } {
+  const length = Math.hypot(wall.b.x - wall.a.x, wall.b.y - wall.a.y);
+  const bays = Math.floor(length / WINDOW_SPACING);
+  const floors = Math.floor((wall.top - wall.base) / FLOOR_HEIGHT);
+  return { bays, floors, offset: (length - bays * WINDOW_SPACING) / 2 };
+}
 
-  private darkenColor(color: string, factor: number): string {
-    const hex = color.replace('#', '');
-    const r = parseInt(hex.substr(0, 2), 16);
-    const g = parseInt(hex.substr(2, 2), 16);
-    const b = parseInt(hex.substr(4, 2), 16);
+// 2.5D oblique renderer for generated buildings: footprints extruded to
+// their heights with shaded walls, lit windows and flat roofs, painted back
+// to front as seen from the camera. Roads and other ground layers are drawn
+// flat beneath.
+export class CityEngine {
+  // Footprint positions, keyed by index into `buildings`
+  private grid = new SpatialGrid<number>(CULL_CELL_SIZE);
+  private centers: Point[];
+  // Volumes of buildings drawn so far, by index
+  private volumes: Volume[][] = [];
+  // Height of the tallest roof, to catch buildings leaning into view
+  private tallest = 0;
 
-    return `rgb(${Math.max(0, r - r * factor)}, ${Math.max(0, g - g * factor)}, ${Math.max(0, b - b * factor)})`;
+  constructor(private buildings: Building[]) {
+    buildings.forEach((building, i) => {
+      this.grid.insert(i, polygonBounds(building.footprint));
+      this.tallest = Math.max(this.tallest, building.tower ? building.tower.height : building.height);
+    });
+    this.centers = buildings.map(building => centroid(building.footprint));
   }
 
-  getBuildingCount(): number {
-    return this.buildings.length;
+  // Draws into a context already transformed to world space. `view` is the
+  // visible ground; `up` points up the screen and `leanBy` is the ground
+  // shift of a point raised one unit.
+  render(ctx: CanvasRenderingContext2D, view: Bounds, up: Point, leanBy: Point, zoom: number) {
+    const showWindows = WINDOW_SIZE * zoom >= MIN_WINDOW_PIXELS;
+    const reach = this.tallest * Math.hypot(leanBy.x, leanBy.y);
+    // Farther up the screen paints first
+    this.grid.query(expandBounds(view, reach))
+      .map(i => ({ i, depth: dot(this.centers[i], up) }))
+      .sort((a, b) => b.depth - a.depth)
+      .forEach(({ i }) => {
+        this.volumes[i] ??= buildingVolumes(this.buildings[i]);
+        this.renderBuilding(ctx, this.buildings[i].id, this.volumes[i], up, leanBy, showWindows);
+      });
   }
 
-  resizeCanvas() {
-    this.canvas.width = window.innerWidth;
-    this.canvas.height = window.innerHeight;
+  // Each volume's walls facing the viewer back to front, then its roof
+  private renderBuilding(ctx: CanvasRenderingContext2D, id: number, volumes: Volume[], up: Point, leanBy: Point,
+      showWindows: boolean) {
+    let wallIndex = 0;
+    volumes.forEach(volume => {
+      const facing: Array<{ wall: Wall; index: number; depth: number }> = [];
+      volume.walls.forEach(wall => {
+        const index = wallIndex++;
+        if (dot(wall.normal, up) >= 0) return;
+        facing.push({ wall, index, depth: (wall.a.x + wall.b.x) * up.x + (wall.a.y + wall.b.y) * up.y });
+      });
+      facing
+        .sort((a, b) => b.depth - a.depth)
+        .forEach(({ wall, index }) => {
+          ctx.fillStyle = wall.color;
+          ctx.beginPath();
+          ctx.moveTo(wall.a.x + wall.base * leanBy.x, wall.a.y + wall.base * leanBy.y);
+          ctx.lineTo(wall.b.x + wall.base * leanBy.x, wall.b.y + wall.base * leanBy.y);
+          ctx.lineTo(wall.b.x + wall.top * leanBy.x, wall.b.y + wall.top * leanBy.y);
+          ctx.lineTo(wall.a.x + wall.top * leanBy.x, wall.a.y + wall.top * leanBy.y);
+          ctx.closePath();
+          ctx.fill();
+          if (showWindows) this.renderWindows(ctx, id, index, wall, leanBy);
+        });
+
+      ctx.fillStyle = volume.roofColor;
+      ctx.beginPath();
+      [volume.roof, volume.hole].forEach(ring => {
+        if (!ring) return;
+        ring.forEach((point, k) => {
+          const p = lift(point, volume.top, leanBy);
+          if (k === 0) ctx.moveTo(p.x, p.y);
+          else ctx.lineTo(p.x, p.y);
+        });
+        ctx.closePath();
+      });
+      ctx.fill('evenodd');
+      // Building outline
+      ctx.strokeStyle = '#1e293b';
+      ctx.lineWidth = 0.3;
+      ctx.stroke();
+    });
+  }
+
+  // One window per bay and storey, lit or dark at random but stable
+  private renderWindows(ctx: CanvasRenderingContext2D, key: number, wallIndex: number, wall: Wall, leanBy: Point) {
+    const { bays, floors, offset } = windowGrid(wall);
+    if (bays < 1 || floors < 1) return;
+
+    const length = Math.hypot(wall.b.x - wall.a.x, wall.b.y - wall.a.y);
+    const dir = { x: (wall.b.x - wall.a.x) / length, y: (wall.b.y - wall.a.y) / length };
+    const margin = offset + (WINDOW_SPACING - WINDOW_SIZE) / 2;
+
+    // One path per colour; the wall's windows never overlap each other.
+    // Each window is a parallelogram: a step along the wall, a step up.
+    const stepX = dir.x * WINDOW_SIZE, stepY = dir.y * WINDOW_SIZE;
+    const upX = WINDOW_SIZE * leanBy.x, upY = WINDOW_SIZE * leanBy.y;
+    [true, false].forEach(lit => {
+      ctx.fillStyle = lit ? LIT_WINDOW_COLOR : DARK_WINDOW_COLOR;
+      ctx.beginPath();
+      for (let floor = 0; floor < floors; floor++) {
+        const z = wall.base + floor * FLOOR_HEIGHT + (FLOOR_HEIGHT - WINDOW_SIZE) / 2;
+        for (let bay = 0; bay < bays; bay++) {
+          if (isWindowLit(key, wallIndex, floor, bay) !== lit) continue;
+          const along = margin + bay * WINDOW_SPACING;
+          const x = wall.a.x + dir.x * along + z * leanBy.x;
+          const y = wall.a.y + dir.y * along + z * leanBy.y;
+          ctx.moveTo(x, y);
+          ctx.lineTo(x + stepX, y + stepY);
+          ctx.lineTo(x + stepX + upX, y + stepY + upY);
+          ctx.lineTo(x + upX, y + upY);
+          ctx.closePath();
+        }
+      }
+      ctx.fill();
+    });
   }
 }
@@ -0,0 +1,78 @@
+import { Building, CityBlock, Point, UnifiedRoadNetwork } from "@/types/road-network";
+
+interface Feature {
+  type: 'Feature';
+  geometry:
+    | { type: 'LineString'; coordinates: number[][] }
+    | { type: 'Polygon'; coordinates: number[][][] };
+  properties: Record<string, unknown>;
+}
+
+export interface CityFeatureCollection {
+  type: 'FeatureCollection';
+  features: Feature[];
+}
+
+// Closed ring in world units; holes wind opposite to the outline
+function ring(points: Point[], reverse = false): number[][] {
+  const coordinates = points.map(p => [p.x, p.y]);
+  if (reverse) coordinates.reverse();
+  return [...coordinates, coordinates[0]];
+}
+
+// GeoJSON in world coordinates (no projection). Buildings export their
+// polygon footprints, courtyards as holes and towers as separate parts.
+export function toGeoJSON(network: UnifiedRoadNetwork | null, blocks: CityBlock[], buildings: Building[]): CityFeatureCollection {
+  const features: Feature[] = [];
+
+  network?.edges.forEach(edge => {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: [[edge.start.x, edge.start.y], [edge.end.x, edge.end.y]] },
+      properties: { kind: 'road', id: edge.id, width: edge.width, highway: edge.highway, bridge: edge.bridge }
+    });
+  });
+
+  network?.intersections.forEach(junction => {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: [ring(junction.polygon)] },
+      properties: { kind: 'junction', nodeId: junction.nodeId, junctionKind: junction.kind }
+    });
+  });
+
+  blocks.forEach(block => {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: [ring(block.points)] },
+      properties: { kind: 'block', id: block.id, area: block.area }
+    });
+  });
+
+  buildings.forEach(building => {
+    const rings = [ring(building.footprint)];
+    if (building.courtyard) rings.push(ring(building.courtyard, true));
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: rings },
+      properties: {
+        kind: 'building',
+        id: building.id,
+        parcelId: building.parcelId,
+        shape: building.shape,
+        landUse: building.landUse,
+        height: building.height
+      }
+    });
+
+    if (building.tower) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Polygon', coordinates: [ring(building.tower.footprint)] },
+        properties: { kind: 'tower', buildingId: building.id, height: building.tower.height }
+      });
+    }
+  });
+
+  return { type: 'FeatureCollection', features };
+}
@@ -0,0 +1,149 @@
+import {
+  Building,
+  CityBlock,
+  CityStats,
+  GenerationConfig,
+  GenerationProgress,
+  Parcel,
+  PopulationField,
+  Segment,
+  Terrain,
+  UnifiedRoadNetwork
+} from "@/types/road-network";
+import { floorAreaByLandUse, placeBuildings } from "@/lib/buildings";
+import { findCityBlocks } from "@/lib/city-blocks";
+import { parseConfig } from "@/lib/generation-config";
+import {
+  ImagePopulationField,
+  PaintedPopulationField,
+  PopulationSpec,
+  RadialPopulationField
+} from "@/lib/population";
+import { subdivideBlocks } from "@/lib/lots";
+import { createRandomStreams, Random } from "@/lib/random";
+import { createConfigPopulation, generateRoadNetwork } from "@/lib/road-network-generator";
+import { createConfigTerrain, ImageTerrain, TerrainSpec } from "@/lib/terrain";
+import { buildUnifiedRoadNetwork } from "@/lib/unified-road-network";
+import { zoneParcels } from "@/lib/zoning";
+
+export interface CityPipelineInput {
+  seed: number;
+  segmentLimit: number;
+  config: GenerationConfig;
+  population: PopulationSpec;
+  terrain: TerrainSpec;
+}
+
+// Segment with links stored as ids. Linked segments form long reference
+// chains that overflow the recursive structured clone behind postMessage.
+export type SegmentRecord = Omit<Segment, 'links'> & { links: { f: number[]; b: number[] } };
+
+export function toSegmentRecords(segments: Segment[]): SegmentRecord[] {
+  // Drop links to proposals that were never accepted
+  const accepted = (link: Segment) => segments[link.id] === link;
+  return segments.map(segment => ({
+    ...segment,
+    start: { ...segment.start },
+    end: { ...segment.end },
+    links: {
+      f: segment.links.f.filter(accepted).map(link => link.id),
+      b: segment.links.b.filter(accepted).map(link => link.id)
+    }
+  }));
+}
+
+export function fromSegmentRecords(records: SegmentRecord[]): Segment[] {
+  const segments: Segment[] = records.map(record => ({ ...record, links: { f: [], b: [] } }));
+  records.forEach((record, i) => {
+    segments[i].links.f = record.links.f.map(id => segments[id]);
+    segments[i].links.b = record.links.b.map(id => segments[id]);
+  });
+  return segments;
+}
+
+export interface CityPipelineResult {
+  segments: SegmentRecord[];
+  blocks: CityBlock[];
+  parcels: Parcel[];
+  buildings: Building[];
+  network: UnifiedRoadNetwork;
+  stats: CityStats;
+}
+
+export function createPopulationField(spec: PopulationSpec, seed: number, config: GenerationConfig): PopulationField {
+  switch (spec.kind) {
+    case 'radial':
+      return new RadialPopulationField(spec.centers);
+    case 'image':
+      return new ImagePopulationField(spec.image, spec.bounds);
+    case 'painted':
+      return new PaintedPopulationField(spec.strokes);
+    default:
+      return createConfigPopulation(seed, config);
+  }
+}
+
+// Null when terrain is disabled
+export function createTerrainField(spec: TerrainSpec, seed: number, config: GenerationConfig): Terrain | null {
+  if (!config.TERRAIN_ENABLED) return null;
+  if (spec.kind === 'image') {
+    return new ImageTerrain(spec.image, spec.bounds, {
+      height: config.TERRAIN_HEIGHT,
+      seaLevel: config.TERRAIN_SEA_LEVEL
+    });
+  }
+  return createConfigTerrain(seed, config);
+}
+
+// Everything between the user's settings and a drawable city. Runs inside
+// the generation worker; plain data in, plain data out.
+export function runCityPipeline(
+  input: CityPipelineInput,
+  onProgress?: (progress: GenerationProgress) => void
+): CityPipelineResult {
+  const config = parseConfig(input.config);
+  const population = createPopulationField(input.population, input.seed, config);
+  const { segments, stats } = generateRoadNetwork({
+    seed: input.seed,
+    segmentLimit: input.segmentLimit,
+    config,
+    population,
+    terrain: createTerrainField(input.terrain, input.seed, config),
+    onProgress
+  });
+
+  const report = (phase: GenerationProgress['phase']) =>
+    onProgress?.({ phase, segmentCount: segments.length, segmentLimit: input.segmentLimit, queueSize: 0 });
+
+  report('network');
+  const network = buildUnifiedRoadNetwork(segments.map(({ id, start, end, width, highway, bridge }) =>
+    ({ id, start, end, width, highway, bridge })), config.ROAD_SNAP_DISTANCE);
+
+  report('blocks');
+  const random = new Random(input.seed);
+  const blocks = findCityBlocks(network, random.fork('blocks'));
+
+  report('lots');
+  const parcels = subdivideBlocks(blocks, config, random.fork('lots'));
+
+  report('zoning');
+  zoneParcels(parcels, network, population, config, random.fork('zoning'));
+
+  report('buildings');
+  const buildings = placeBuildings(parcels, population, config, createRandomStreams(random));
+
+  return {
+    segments: toSegmentRecords(segments),
+    blocks,
+    parcels,
+    buildings,
+    network,
+    stats: {
+      ...stats,
+      blockCount: blocks.length,
+      parcelCount: parcels.length,
+      buildingCount: buildings.length,
+      floorArea: floorAreaByLandUse(buildings)
+    }
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { configRange, DEFAULT_CONFIG, parseConfig, validateConfig } from "@/lib/generation-config";
+
+describe('validateConfig', () => {
+  it('fills in defaults', () => {
+    expect(validateConfig({ ROAD_PATTERN: 'grid' })).toEqual({ success: true, config: { ...DEFAULT_CONFIG, ROAD_PATTERN: 'grid' } });
+  });
+
+  it('rejects values outside their range', () => {
+    const { min } = configRange('ROAD_SNAP_DISTANCE');
+    expect(validateConfig({ ROAD_SNAP_DISTANCE: min - 1 }).success).toBe(false);
+  });
+
+  it.each([
+    ['LOT_MIN_FRONTAGE', { LOT_MIN_FRONTAGE: 100, LOT_MAX_FRONTAGE: 80 }],
+    ['LOT_MIN_AREA', { LOT_MIN_AREA: 7000, LOT_MAX_AREA: 6000 }]
+  ])('rejects %s above its maximum', (key, config) => {
+    const result = validateConfig(config);
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toContain(key);
+  });
+
+  it('accepts equal minimum and maximum', () => {
+    expect(validateConfig({ LOT_MIN_FRONTAGE: 60, LOT_MAX_FRONTAGE: 60 }).success).toBe(true);
+  });
+
+  it('throws from parseConfig on an invalid range', () => {
+    expect(() => parseConfig({ LOT_MIN_AREA: 7000, LOT_MAX_AREA: 6000 })).toThrow(/LOT_MAX_AREA/);
+  });
+});
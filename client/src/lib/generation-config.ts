@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { GenerationConfig } from "@/types/road-network";
+import { DEFAULT_HEATMAP_PARAMS } from "@/lib/noise";
+
+// Configuration (values from the original Parish–Müller implementation)
+export const DEFAULT_CONFIG: GenerationConfig = {
+  HIGHWAY_SEGMENT_LENGTH: 400,
+  DEFAULT_SEGMENT_LENGTH: 300,
+  HIGHWAY_SEGMENT_WIDTH: 16,
+  DEFAULT_SEGMENT_WIDTH: 6,
+  HIGHWAY_BRANCH_PROBABILITY: 0.05,
+  DEFAULT_BRANCH_PROBABILITY: 0.4,
+  HIGHWAY_BRANCH_POPULATION_THRESHOLD: 0.1,
+  NORMAL_BRANCH_POPULATION_THRESHOLD: 0.1,
+  NORMAL_BRANCH_TIME_DELAY_FROM_HIGHWAY: 5,
+  NORMAL_BRANCH_TIME_DELAY: 1,
+  HIGHWAY_CURVE_DEVIATION: 15, // degrees
+  MINIMUM_INTERSECTION_DEVIATION: 30, // degrees
+  ROAD_SNAP_DISTANCE: 50,
+  ROAD_PATTERN: 'basic',
+  GRID_ANGLE: 0, // degrees
+  GRID_PER_DISTRICT: false,
+  ORGANIC_DEVIATION: 20, // degrees
+  DISTRICT_COUNT: 6,
+  DISTRICT_SPREAD: 6000,
+  TERRAIN_ENABLED: false,
+  TERRAIN_HEIGHT: 300,
+  TERRAIN_SEA_LEVEL: 0.3,
+  TERRAIN_RIVER_WIDTH: 0.02,
+  TERRAIN_LAKE_DENSITY: 0.1,
+  MAX_ROAD_SLOPE: 0.12,
+  BRIDGE_MAX_LENGTH: 600,
+  TERRAIN_BEND_ANGLE: 30, // degrees
+  LOT_MIN_FRONTAGE: 20,
+  LOT_MAX_FRONTAGE: 80,
+  LOT_MIN_AREA: 800,
+  LOT_MAX_AREA: 6000,
+  ZONE_COMMERCIAL_DENSITY: 0.6,
+  ZONE_INDUSTRIAL_DISTANCE: 150,
+  ZONE_INDUSTRIAL_MAX_DENSITY: 0.35,
+  ZONE_CIVIC_SHARE: 0.03,
+  ZONE_PARK_SHARE: 0.05,
+  BUILDING_MAX_HEIGHT: 150,
+  HEATMAP_NOISE_TYPE: DEFAULT_HEATMAP_PARAMS.type,
+  HEATMAP_OCTAVES: DEFAULT_HEATMAP_PARAMS.octaves,
+  HEATMAP_FREQUENCY: DEFAULT_HEATMAP_PARAMS.frequency,
+  HEATMAP_PERSISTENCE: DEFAULT_HEATMAP_PARAMS.persistence,
+  HEATMAP_LACUNARITY: DEFAULT_HEATMAP_PARAMS.lacunarity,
+  HEATMAP_DOMAIN_WARP: DEFAULT_HEATMAP_PARAMS.warp
+};
+
+const probability = z.number().min(0).max(1);
+
+// Bounds double as the slider ranges in the advanced generation panel
+const configFields = z.object({
+  HIGHWAY_SEGMENT_LENGTH: z.number().min(50).max(2000),
+  DEFAULT_SEGMENT_LENGTH: z.number().min(50).max(2000),
+  HIGHWAY_SEGMENT_WIDTH: z.number().min(1).max(100),
+  DEFAULT_SEGMENT_WIDTH: z.number().min(1).max(100),
+  HIGHWAY_BRANCH_PROBABILITY: probability,
+  DEFAULT_BRANCH_PROBABILITY: probability,
+  HIGHWAY_BRANCH_POPULATION_THRESHOLD: probability,
+  NORMAL_BRANCH_POPULATION_THRESHOLD: probability,
+  NORMAL_BRANCH_TIME_DELAY_FROM_HIGHWAY: z.number().int().min(0).max(50),
+  NORMAL_BRANCH_TIME_DELAY: z.number().int().min(0).max(50),
+  HIGHWAY_CURVE_DEVIATION: z.number().min(0).max(90),
+  MINIMUM_INTERSECTION_DEVIATION: z.number().min(0).max(90),
+  ROAD_SNAP_DISTANCE: z.number().min(0).max(500),
+  ROAD_PATTERN: z.enum(['basic', 'grid', 'radial', 'organic', 'mixed']),
+  GRID_ANGLE: z.number().min(0).max(90),
+  GRID_PER_DISTRICT: z.boolean(),
+  ORGANIC_DEVIATION: z.number().min(0).max(60),
+  DISTRICT_COUNT: z.number().int().min(1).max(32),
+  DISTRICT_SPREAD: z.number().min(500).max(50000),
+  TERRAIN_ENABLED: z.boolean(),
+  TERRAIN_HEIGHT: z.number().min(0).max(2000),
+  TERRAIN_SEA_LEVEL: probability,
+  TERRAIN_RIVER_WIDTH: z.number().min(0).max(0.2),
+  TERRAIN_LAKE_DENSITY: probability,
+  MAX_ROAD_SLOPE: z.number().min(0.01).max(2),
+  BRIDGE_MAX_LENGTH: z.number().min(0).max(5000),
+  TERRAIN_BEND_ANGLE: z.number().min(0).max(90),
+  LOT_MIN_FRONTAGE: z.number().min(5).max(200),
+  LOT_MAX_FRONTAGE: z.number().min(10).max(500),
+  LOT_MIN_AREA: z.number().min(50).max(20000),
+  LOT_MAX_AREA: z.number().min(200).max(100000),
+  ZONE_COMMERCIAL_DENSITY: probability,
+  ZONE_INDUSTRIAL_DISTANCE: z.number().min(0).max(2000),
+  ZONE_INDUSTRIAL_MAX_DENSITY: probability,
+  ZONE_CIVIC_SHARE: probability,
+  ZONE_PARK_SHARE: probability,
+  BUILDING_MAX_HEIGHT: z.number().min(5).max(600),
+  HEATMAP_NOISE_TYPE: z.enum(['fbm', 'ridged']),
+  HEATMAP_OCTAVES: z.number().int().min(1).max(8),
+  HEATMAP_FREQUENCY: z.number().min(0.0005).max(0.05),
+  HEATMAP_PERSISTENCE: z.number().min(0.05).max(1),
+  HEATMAP_LACUNARITY: z.number().min(1).max(4),
+  HEATMAP_DOMAIN_WARP: z.number().min(0).max(5000)
+}).strict();
+
+// Settings that bound a range from below and above
+const RANGE_PAIRS: Array<[NumericConfigKey, NumericConfigKey]> = [
+  ['LOT_MIN_FRONTAGE', 'LOT_MAX_FRONTAGE'],
+  ['LOT_MIN_AREA', 'LOT_MAX_AREA']
+];
+
+export const generationConfigSchema = configFields.superRefine((config, ctx) => {
+  for (const [min, max] of RANGE_PAIRS) {
+    if (config[min] > config[max]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [min], message: `must not exceed ${max}` });
+    }
+  }
+}) satisfies z.ZodType<GenerationConfig>;
+
+export type NumericConfigKey = {
+  [K in keyof GenerationConfig]: GenerationConfig[K] extends number ? K : never
+}[keyof GenerationConfig];
+
+export function configRange(key: NumericConfigKey): { min: number; max: number } {
+  const field = configFields.shape[key];
+  return { min: field.minValue ?? 0, max: field.maxValue ?? 1 };
+}
+
+export function validateConfig(config: Partial<GenerationConfig> = {}):
+  { success: true; config: GenerationConfig } | { success: false; error: string } {
+  const result = generationConfigSchema.safeParse({ ...DEFAULT_CONFIG, ...config });
+  if (result.success) return { success: true, config: result.data };
+  return { success: false, error: fromZodError(result.error).message };
+}
+
+// Merges overrides onto the defaults, throwing on out-of-range values
+export function parseConfig(config: Partial<GenerationConfig> = {}): GenerationConfig {
+  const result = validateConfig(config);
+  if (!result.success) throw new Error(result.error);
+  return result.config;
+}
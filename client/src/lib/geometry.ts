@@ -0,0 +1,237 @@
+import { Point } from "@/types/road-network";
+
+// Distance from point to line segment
+export function distanceFromPointToLineSegment(point: Point, lineStart: Point, lineEnd: Point): number {
+  const A = point.x - lineStart.x;
+  const B = point.y - lineStart.y;
+  const C = lineEnd.x - lineStart.x;
+  const D = lineEnd.y - lineStart.y;
+
+  const dot = A * C + B * D;
+  const lenSq = C * C + D * D;
+  let param = -1;
+  if (lenSq !== 0) param = dot / lenSq;
+
+  let xx: number, yy: number;
+  if (param < 0) {
+    xx = lineStart.x;
+    yy = lineStart.y;
+  } else if (param > 1) {
+    xx = lineEnd.x;
+    yy = lineEnd.y;
+  } else {
+    xx = lineStart.x + param * C;
+    yy = lineStart.y + param * D;
+  }
+
+  const dx = point.x - xx;
+  const dy = point.y - yy;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+export interface SegmentIntersection extends Point {
+  // Parametric positions along the first and second segment
+  t: number;
+  u: number;
+}
+
+// Where two segments cross, with the parametric position along each; with
+// omitEnds, touches at either segment's endpoints don't count
+export function segmentIntersection(
+  a1: Point, a2: Point, b1: Point, b2: Point, omitEnds = false
+): SegmentIntersection | null {
+  const denom = (a1.x - a2.x) * (b1.y - b2.y) - (a1.y - a2.y) * (b1.x - b2.x);
+  if (Math.abs(denom) < 0.0001) return null;
+
+  const t = ((a1.x - b1.x) * (b1.y - b2.y) - (a1.y - b1.y) * (b1.x - b2.x)) / denom;
+  const u = -((a1.x - a2.x) * (a1.y - b1.y) - (a1.y - a2.y) * (a1.x - b1.x)) / denom;
+
+  const lo = omitEnds ? 0.001 : 0;
+  const hi = omitEnds ? 0.999 : 1;
+  if (t < lo || t > hi || u < lo || u > hi) return null;
+
+  return { x: a1.x + t * (a2.x - a1.x), y: a1.y + t * (a2.y - a1.y), t, u };
+}
+
+// Closest point on a segment, with its parametric position along it
+export function closestPointOnSegment(point: Point, lineStart: Point, lineEnd: Point): { point: Point; t: number; distance: number } {
+  const dx = lineEnd.x - lineStart.x;
+  const dy = lineEnd.y - lineStart.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - lineStart.x) * dx + (point.y - lineStart.y) * dy) / lenSq));
+  const closest = { x: lineStart.x + t * dx, y: lineStart.y + t * dy };
+  return { point: closest, t, distance: Math.hypot(point.x - closest.x, point.y - closest.y) };
+}
+
+// Smallest angle in degrees between two undirected lines
+export function minDegreeDifference(dirA: number, dirB: number): number {
+  const diff = Math.abs(dirA - dirB) * 180 / Math.PI % 180;
+  return Math.min(diff, 180 - diff);
+}
+
+export function pointsEqual(a: Point, b: Point, epsilon = 0.01): boolean {
+  return Math.abs(a.x - b.x) < epsilon && Math.abs(a.y - b.y) < epsilon;
+}
+
+// Signed shoelace area; positive when the points run counter-clockwise in
+// world coordinates (y up)
+export function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+// True if any two non-adjacent edges of the closed polygon cross
+export function isSelfIntersecting(points: Point[]): boolean {
+  const n = points.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      if (segmentIntersection(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n], true)) return true;
+    }
+  }
+  return false;
+}
+
+// Even-odd rule
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function polygonCentroid(points: Point[]): Point {
+  let x = 0, y = 0, area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    x += (a.x + b.x) * cross;
+    y += (a.y + b.y) * cross;
+    area += cross;
+  }
+  if (Math.abs(area) < 1e-9) {
+    // Degenerate: fall back to the vertex average
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+    };
+  }
+  return { x: x / (3 * area), y: y / (3 * area) };
+}
+
+export interface OrientedBox {
+  center: Point;
+  // Unit vector along the longer side
+  axis: Point;
+  length: number;
+  width: number;
+}
+
+// Minimum-area bounding rectangle, trying each polygon edge as an axis
+export function orientedBoundingBox(points: Point[]): OrientedBox {
+  let best: OrientedBox | null = null;
+  let bestArea = Infinity;
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length < 1e-9) continue;
+    const u = { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+    for (const p of points) {
+      const pu = p.x * u.x + p.y * u.y;
+      const pv = -p.x * u.y + p.y * u.x;
+      minU = Math.min(minU, pu); maxU = Math.max(maxU, pu);
+      minV = Math.min(minV, pv); maxV = Math.max(maxV, pv);
+    }
+
+    const area = (maxU - minU) * (maxV - minV);
+    if (area < bestArea) {
+      bestArea = area;
+      const cu = (minU + maxU) / 2, cv = (minV + maxV) / 2;
+      const center = { x: cu * u.x - cv * u.y, y: cu * u.y + cv * u.x };
+      const extentU = maxU - minU, extentV = maxV - minV;
+      best = extentU >= extentV
+        ? { center, axis: u, length: extentU, width: extentV }
+        : { center, axis: { x: -u.y, y: u.x }, length: extentV, width: extentU };
+    }
+  }
+
+  return best ?? { center: points[0] ?? { x: 0, y: 0 }, axis: { x: 1, y: 0 }, length: 0, width: 0 };
+}
+
+function isInsideTriangle(p: Point, a: Point, b: Point, c: Point): boolean {
+  const d1 = (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+  const d2 = (c.x - b.x) * (p.y - b.y) - (c.y - b.y) * (p.x - b.x);
+  const d3 = (a.x - c.x) * (p.y - c.y) - (a.y - c.y) * (p.x - c.x);
+  return d1 >= 0 && d2 >= 0 && d3 >= 0;
+}
+
+// Whether every corner turns the same way; straight corners are allowed
+export function isConvex(points: Point[]): boolean {
+  let sign = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const c = points[(i + 2) % points.length];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < 1e-9) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+}
+
+// Ear clipping for simple polygons of either winding. Returns index triples
+// into `points`; degenerate leftovers are dropped rather than looping.
+export function triangulate(points: Point[]): number[] {
+  // Convex outlines, which most lots and footprints are, fan out from a corner
+  if (isConvex(points)) {
+    const fan: number[] = [];
+    for (let i = 1; i < points.length - 1; i++) fan.push(0, i, i + 1);
+    return fan;
+  }
+
+  const order = points.map((_, i) => i);
+  if (polygonArea(points) < 0) order.reverse();
+  const triangles: number[] = [];
+
+  let guard = order.length * order.length;
+  while (order.length > 3 && guard-- > 0) {
+    let clipped = false;
+    for (let i = 0; i < order.length; i++) {
+      const ia = order[(i - 1 + order.length) % order.length];
+      const ib = order[i];
+      const ic = order[(i + 1) % order.length];
+      const a = points[ia], b = points[ib], c = points[ic];
+      // Reflex corners are never ears
+      if ((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x) <= 0) continue;
+      const blocked = order.some(j => j !== ia && j !== ib && j !== ic && isInsideTriangle(points[j], a, b, c));
+      if (blocked) continue;
+      triangles.push(ia, ib, ic);
+      order.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    if (!clipped) break;
+  }
+
+  if (order.length === 3) triangles.push(order[0], order[1], order[2]);
+  return triangles;
+}
@@ -0,0 +1,138 @@
+import { JunctionKind, Point, RoadEdge, RoadNode, UnifiedIntersection } from "@/types/road-network";
+
+// Straight-through joints need no polygon
+const COLLINEAR_TOLERANCE = 0.02; // radians
+// Arms may give up at most this share of their length to each junction
+const MAX_TRIM_FRACTION = 0.45;
+
+interface Arm {
+  edge: RoadEdge;
+  angle: number;
+  dir: Point;
+  // Left of the direction of travel away from the junction
+  normal: Point;
+  halfWidth: number;
+  trim: number;
+  maxTrim: number;
+  isAtStart: boolean;
+}
+
+function junctionKind(arms: Arm[]): JunctionKind {
+  if (arms.filter(arm => arm.edge.highway).length >= 3) return 'interchange';
+  switch (arms.length) {
+    case 2: return 'bend';
+    case 3: return 'tee';
+    case 4: return 'crossroads';
+    default: return 'multiway';
+  }
+}
+
+// Where arm `a`'s left curb meets arm `b`'s right curb, for arms less than a
+// half turn apart; wider gaps have no inner corner
+function curbCorner(center: Point, a: Arm, b: Arm): Point | null {
+  let gap = b.angle - a.angle;
+  if (gap <= 0) gap += Math.PI * 2;
+  if (gap >= Math.PI - COLLINEAR_TOLERANCE) return null;
+
+  const denom = a.dir.x * b.dir.y - a.dir.y * b.dir.x;
+  if (Math.abs(denom) < 1e-9) return null;
+
+  const ax = center.x + a.normal.x * a.halfWidth, ay = center.y + a.normal.y * a.halfWidth;
+  const bx = center.x - b.normal.x * b.halfWidth, by = center.y - b.normal.y * b.halfWidth;
+  const s = ((bx - ax) * b.dir.y - (by - ay) * b.dir.x) / denom;
+  return { x: ax + a.dir.x * s, y: ay + a.dir.y * s };
+}
+
+function armPoint(center: Point, arm: Arm, side: number): Point {
+  return {
+    x: center.x + arm.dir.x * arm.trim + arm.normal.x * arm.halfWidth * side,
+    y: center.y + arm.dir.y * arm.trim + arm.normal.y * arm.halfWidth * side
+  };
+}
+
+// Builds a paved polygon for every node where roads meet at an angle or three
+// or more roads meet, and trims the edges back to the polygon boundary.
+// Mutates edge start/end points; node points are left untouched.
+export function buildJunctions(nodes: RoadNode[], edges: RoadEdge[]): UnifiedIntersection[] {
+  const junctions: UnifiedIntersection[] = [];
+  const trimmed = new Map<RoadEdge, { start: Point; end: Point }>();
+
+  nodes.forEach(node => {
+    if (node.edges.length < 2) return;
+    const center = node.point;
+
+    const arms: Arm[] = node.edges.map(id => {
+      const edge = edges[id];
+      const isAtStart = edge.from === node.id;
+      const other = nodes[isAtStart ? edge.to : edge.from].point;
+      const length = Math.hypot(other.x - center.x, other.y - center.y);
+      const dir = { x: (other.x - center.x) / length, y: (other.y - center.y) / length };
+      return {
+        edge,
+        angle: Math.atan2(dir.y, dir.x),
+        dir,
+        normal: { x: -dir.y, y: dir.x },
+        halfWidth: edge.width / 2,
+        trim: 0,
+        maxTrim: length * MAX_TRIM_FRACTION,
+        isAtStart
+      };
+    }).sort((a, b) => a.angle - b.angle);
+
+    if (arms.length === 2) {
+      const turn = Math.abs(Math.abs(arms[1].angle - arms[0].angle) - Math.PI);
+      if (turn < COLLINEAR_TOLERANCE && arms[0].halfWidth === arms[1].halfWidth) return;
+    }
+
+    // Push each arm back past both of its inner corners
+    const corners = arms.map((arm, i) => curbCorner(center, arm, arms[(i + 1) % arms.length]));
+    arms.forEach((arm, i) => {
+      const widest = arms.reduce((max, other) => Math.max(max, other.halfWidth), 0);
+      let trim = arms.length > 2 ? widest : 0;
+      [corners[i], corners[(i - 1 + arms.length) % arms.length]].forEach(corner => {
+        if (!corner) return;
+        trim = Math.max(trim, (corner.x - center.x) * arm.dir.x + (corner.y - center.y) * arm.dir.y);
+      });
+      arm.trim = Math.min(trim, arm.maxTrim);
+    });
+
+    // Right curb end, left curb end, inner corner, next arm...
+    const polygon: Point[] = [];
+    arms.forEach((arm, i) => {
+      polygon.push(armPoint(center, arm, -1), armPoint(center, arm, 1));
+      const corner = corners[i];
+      if (corner) polygon.push(corner);
+    });
+
+    const connectedRoads = arms.map(arm => {
+      const meetingPoint = { x: center.x + arm.dir.x * arm.trim, y: center.y + arm.dir.y * arm.trim };
+      const ends = trimmed.get(arm.edge) ?? { start: arm.edge.start, end: arm.edge.end };
+      trimmed.set(arm.edge, arm.isAtStart ? { ...ends, start: meetingPoint } : { ...ends, end: meetingPoint });
+      return {
+        edgeId: arm.edge.id,
+        angle: arm.angle,
+        width: arm.edge.width,
+        highway: arm.edge.highway,
+        meetingPoint,
+        isAtStart: arm.isAtStart
+      };
+    });
+
+    junctions.push({
+      nodeId: node.id,
+      kind: junctionKind(arms),
+      center,
+      radius: polygon.reduce((max, p) => Math.max(max, Math.hypot(p.x - center.x, p.y - center.y)), 0),
+      polygon,
+      connectedRoads,
+      isHighway: arms.some(arm => arm.edge.highway)
+    });
+  });
+
+  trimmed.forEach(({ start, end }, edge) => {
+    edge.start = start;
+    edge.end = end;
+  });
+
+  return junctions;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { CityBlock, Point } from "@/types/road-network";
+import { DEFAULT_CONFIG } from "@/lib/generation-config";
+import { polygonArea } from "@/lib/geometry";
+import { subdivideBlocks } from "@/lib/lots";
+import { Random } from "@/lib/random";
+
+function block(points: Point[]): CityBlock {
+  return { id: 0, points, frontage: points.map((_, i) => i), area: polygonArea(points), color: '#000' };
+}
+
+// True if two sides of the polygon run back over each other, as they do where
+// clipping joins separate pieces
+function hasOverlappingSides(points: Point[]): boolean {
+  const sides = points.map((a, i) => [a, points[(i + 1) % points.length]]);
+  return sides.some(([a, b], i) => sides.some(([c, d], j) => {
+    if (j <= i) return false;
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return false;
+    const offset = (p: Point) => Math.abs((p.x - a.x) * dy - (p.y - a.y) * dx) / length;
+    if (offset(c) > 1e-6 || offset(d) > 1e-6) return false;
+    const along = (p: Point) => ((p.x - a.x) * dx + (p.y - a.y) * dy) / length;
+    return Math.min(Math.max(along(c), along(d)), length) - Math.max(Math.min(along(c), along(d)), 0) > 1e-6;
+  }));
+}
+
+describe('subdivideBlocks', () => {
+  // Two arms joined at the bottom, so cuts across the arms hit both
+  const uShape = block([
+    { x: 0, y: 0 }, { x: 120, y: 0 }, { x: 120, y: 200 }, { x: 80, y: 200 },
+    { x: 80, y: 40 }, { x: 40, y: 40 }, { x: 40, y: 200 }, { x: 0, y: 200 }
+  ]);
+
+  it.each([1, 2, 3, 4, 5])('cuts a concave block into single simple lots (seed %i)', seed => {
+    const parcels = subdivideBlocks([uShape], DEFAULT_CONFIG, new Random(seed));
+    expect(parcels.length).toBeGreaterThan(1);
+    parcels.forEach(parcel => {
+      expect(hasOverlappingSides(parcel.points)).toBe(false);
+      expect(parcel.area).toBeGreaterThanOrEqual(DEFAULT_CONFIG.LOT_MIN_AREA);
+    });
+    expect(parcels.reduce((sum, parcel) => sum + parcel.area, 0)).toBeCloseTo(uShape.area, 6);
+  });
+});
@@ -0,0 +1,135 @@
+import { CityBlock, GenerationConfig, Parcel, Point } from "@/types/road-network";
+import { isSelfIntersecting, orientedBoundingBox, polygonArea } from "@/lib/geometry";
+import { Random } from "@/lib/random";
+
+// Recursion guard for blocks whose shape never satisfies the limits
+const MAX_SPLIT_DEPTH = 12;
+
+// Boundary vertex; `edge` is the road edge the side from this vertex to the
+// next one runs along, -1 for sides cut inside the block
+interface LabeledPoint extends Point {
+  edge: number;
+}
+
+type LotLimits = Pick<GenerationConfig, 'LOT_MIN_FRONTAGE' | 'LOT_MAX_FRONTAGE' | 'LOT_MIN_AREA' | 'LOT_MAX_AREA'>;
+
+function sideLength(polygon: LabeledPoint[], i: number): number {
+  const a = polygon[i];
+  const b = polygon[(i + 1) % polygon.length];
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+// Total length of sides along a road
+function streetFrontage(polygon: LabeledPoint[]): number {
+  return polygon.reduce((sum, point, i) => point.edge >= 0 ? sum + sideLength(polygon, i) : sum, 0);
+}
+
+function longestStreetSide(polygon: LabeledPoint[]): number {
+  return polygon.reduce((max, point, i) => point.edge >= 0 ? Math.max(max, sideLength(polygon, i)) : max, 0);
+}
+
+// The new cut sides all lie on the cut line. On a concave shape the kept part
+// can come out as pieces joined by cut sides running back over each other,
+// which shows as overlapping spans along the line.
+function isSinglePiece(polygon: LabeledPoint[], cuts: number[], normal: Point): boolean {
+  const along = (p: Point) => p.y * normal.x - p.x * normal.y;
+  const spans = cuts
+    .map(i => {
+      const a = along(polygon[i]);
+      const b = along(polygon[(i + 1) % polygon.length]);
+      return { min: Math.min(a, b), max: Math.max(a, b) };
+    })
+    .sort((a, b) => a.min - b.min);
+  return spans.every((span, i) => i === 0 || span.min >= spans[i - 1].max - 1e-6);
+}
+
+// Keeps the part of the polygon where (p - origin) · normal >= 0. The cut
+// side is labeled -1. Empty when what's kept is not a single simple polygon.
+function clipHalfPlane(polygon: LabeledPoint[], origin: Point, normal: Point): LabeledPoint[] {
+  const side = (p: Point) => (p.x - origin.x) * normal.x + (p.y - origin.y) * normal.y;
+  const result: LabeledPoint[] = [];
+  // Indices in result of the sides running along the cut
+  const cuts: number[] = [];
+
+  polygon.forEach((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    const sa = side(a);
+    const sb = side(b);
+    if (sa >= 0) result.push(a);
+    if ((sa >= 0) !== (sb >= 0)) {
+      const t = sa / (sa - sb);
+      // Leaving runs along the cut; entering resumes the original side
+      if (sa >= 0) cuts.push(result.length);
+      result.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, edge: sa >= 0 ? -1 : a.edge });
+    }
+  });
+
+  return result.length >= 3 && isSinglePiece(result, cuts, normal) ? result : [];
+}
+
+function isValidLot(polygon: LabeledPoint[], limits: LotLimits): boolean {
+  return polygon.length >= 3 &&
+    polygonArea(polygon) >= limits.LOT_MIN_AREA &&
+    !isSelfIntersecting(polygon) &&
+    streetFrontage(polygon) >= limits.LOT_MIN_FRONTAGE;
+}
+
+// Splits across the long axis of the minimum bounding box until every lot is
+// small enough, falling back to the short axis when a cut would leave one
+// half without street access. Shapes that cannot be split stay whole.
+function splitLot(polygon: LabeledPoint[], limits: LotLimits, random: Random, depth: number, lots: LabeledPoint[][]) {
+  const fits = polygonArea(polygon) <= limits.LOT_MAX_AREA && longestStreetSide(polygon) <= limits.LOT_MAX_FRONTAGE;
+  if (fits || depth >= MAX_SPLIT_DEPTH) {
+    lots.push(polygon);
+    return;
+  }
+
+  const box = orientedBoundingBox(polygon);
+  const axes = [
+    { dir: box.axis, length: box.length },
+    { dir: { x: -box.axis.y, y: box.axis.x }, length: box.width }
+  ];
+
+  for (const { dir, length } of axes) {
+    const offset = (random.range(0.4, 0.6) - 0.5) * length;
+    const origin = { x: box.center.x + dir.x * offset, y: box.center.y + dir.y * offset };
+    const front = clipHalfPlane(polygon, origin, dir);
+    const back = clipHalfPlane(polygon, origin, { x: -dir.x, y: -dir.y });
+
+    if (isValidLot(front, limits) && isValidLot(back, limits)) {
+      splitLot(front, limits, random, depth + 1, lots);
+      splitLot(back, limits, random, depth + 1, lots);
+      return;
+    }
+  }
+
+  lots.push(polygon);
+}
+
+// Divides each block into parcels that all face a street. Blocks too small
+// or too cut off to hold a single lot are left empty.
+export function subdivideBlocks(blocks: CityBlock[], limits: LotLimits, random: Random): Parcel[] {
+  const parcels: Parcel[] = [];
+
+  blocks.forEach(block => {
+    const polygon = block.points.map((point, i) => ({ ...point, edge: block.frontage[i] }));
+    if (!isValidLot(polygon, limits)) return;
+
+    const lots: LabeledPoint[][] = [];
+    splitLot(polygon, limits, random, 0, lots);
+
+    lots.forEach(lot => {
+      parcels.push({
+        id: parcels.length,
+        blockId: block.id,
+        points: lot.map(({ x, y }) => ({ x, y })),
+        frontage: lot.map(point => point.edge),
+        area: polygonArea(lot),
+        // Until zoning runs
+        landUse: 'residential'
+      });
+    });
+  });
+
+  return parcels;
+}
@@ -0,0 +1,135 @@
+import { HeatmapSource, Point } from "@/types/road-network";
+import { Random } from "@/lib/random";
+
+export type Noise2D = (x: number, y: number) => number;
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+// 12 gradient directions evenly spread around the circle
+const GRADIENTS: ReadonlyArray<readonly [number, number]> = Array.from({ length: 12 }, (_, i) => {
+  const angle = (i / 12) * Math.PI * 2;
+  return [Math.cos(angle), Math.sin(angle)] as const;
+});
+
+// 2D simplex gradient noise with a permutation table shuffled by `random`.
+// Returns values in roughly [-1, 1] with no lattice-aligned artifacts.
+export function createSimplexNoise(random: Random): Noise2D {
+  const perm = new Uint8Array(512);
+  const source = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) source[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = random.int(i + 1);
+    const tmp = source[i];
+    source[i] = source[j];
+    source[j] = tmp;
+  }
+  for (let i = 0; i < 512; i++) perm[i] = source[i & 255];
+
+  const corner = (gi: number, x: number, y: number) => {
+    const t = 0.5 - x * x - y * y;
+    if (t < 0) return 0;
+    const [gx, gy] = GRADIENTS[gi % 12];
+    return t * t * t * t * (gx * x + gy * y);
+  };
+
+  return (x: number, y: number) => {
+    const s = (x + y) * F2;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const t = (i + j) * G2;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2;
+    const y2 = y0 - 1 + 2 * G2;
+
+    const ii = i & 255;
+    const jj = j & 255;
+
+    const n0 = corner(perm[ii + perm[jj]], x0, y0);
+    const n1 = corner(perm[ii + i1 + perm[jj + j1]], x1, y1);
+    const n2 = corner(perm[ii + 1 + perm[jj + 1]], x2, y2);
+
+    return 70 * (n0 + n1 + n2);
+  };
+}
+
+export type HeatmapNoiseType = 'fbm' | 'ridged';
+
+export interface HeatmapParams {
+  type: HeatmapNoiseType;
+  octaves: number;
+  frequency: number;
+  persistence: number;
+  lacunarity: number;
+  // Domain warp displacement in world units, 0 disables warping
+  warp: number;
+}
+
+export const DEFAULT_HEATMAP_PARAMS: HeatmapParams = {
+  type: 'fbm',
+  octaves: 3,
+  frequency: 0.005,
+  persistence: 0.5,
+  lacunarity: 2,
+  warp: 0
+};
+
+// Multi-octave noise for population heatmap. Each octave samples the noise
+// at a seed-derived offset, so different seeds grow over different fields.
+export function createHeatmapNoise(seed: number, params: HeatmapParams = DEFAULT_HEATMAP_PARAMS): HeatmapSource {
+  const random = new Random(seed).fork('heatmap');
+  const simplex = createSimplexNoise(random);
+  const octaves = Math.max(1, Math.floor(params.octaves));
+  const offsets: Point[] = [];
+  let totalAmplitude = 0;
+  let amplitude = 1;
+
+  for (let i = 0; i < octaves; i++) {
+    offsets.push({ x: random.range(-10000, 10000), y: random.range(-10000, 10000) });
+    totalAmplitude += amplitude;
+    amplitude *= params.persistence;
+  }
+
+  const warpOffsets: Point[] = [
+    { x: random.range(-10000, 10000), y: random.range(-10000, 10000) },
+    { x: random.range(-10000, 10000), y: random.range(-10000, 10000) }
+  ];
+
+  const octaveValue = (x: number, y: number, i: number) => {
+    const n = simplex(x + offsets[i].x, y + offsets[i].y);
+    if (params.type === 'ridged') {
+      const ridge = 1 - Math.abs(n);
+      return ridge * ridge;
+    }
+    return n * 0.5 + 0.5;
+  };
+
+  return (x: number, y: number) => {
+    if (params.warp > 0) {
+      // Low-frequency displacement so the field bends instead of blobbing
+      const wx = simplex(x * params.frequency * 0.5 + warpOffsets[0].x, y * params.frequency * 0.5 + warpOffsets[0].y);
+      const wy = simplex(x * params.frequency * 0.5 + warpOffsets[1].x, y * params.frequency * 0.5 + warpOffsets[1].y);
+      x += wx * params.warp;
+      y += wy * params.warp;
+    }
+
+    let value = 0;
+    let amplitude = 1;
+    let frequency = params.frequency;
+
+    for (let i = 0; i < octaves; i++) {
+      value += octaveValue(x * frequency, y * frequency, i) * amplitude;
+      frequency *= params.lacunarity;
+      amplitude *= params.persistence;
+    }
+
+    return Math.max(0, Math.min(1, value / totalAmplitude));
+  };
+}
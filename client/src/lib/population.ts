@@ -0,0 +1,200 @@
+import { HeatmapSource, Point, PopulationField } from "@/types/road-network";
+import { createHeatmapNoise, HeatmapParams } from "@/lib/noise";
+import { Random } from "@/lib/random";
+
+export type PopulationSourceKind = 'noise' | 'radial' | 'image' | 'painted';
+
+export interface WorldBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Seeded multi-octave noise field (the original population source)
+export class NoisePopulationField implements PopulationField {
+  private source: HeatmapSource;
+
+  constructor(seed: number, params?: HeatmapParams) {
+    this.source = createHeatmapNoise(seed, params);
+  }
+
+  sample(x: number, y: number): number {
+    return this.source(x, y);
+  }
+}
+
+export interface PopulationCenter {
+  x: number;
+  y: number;
+  weight: number;
+  radius: number;
+}
+
+// Weighted city centers with a smooth radial falloff
+export class RadialPopulationField implements PopulationField {
+  constructor(private centers: PopulationCenter[]) {}
+
+  sample(x: number, y: number): number {
+    let value = 0;
+    for (const center of this.centers) {
+      const d = Math.hypot(x - center.x, y - center.y) / center.radius;
+      if (d < 1) {
+        const falloff = 1 - d * d;
+        value += center.weight * falloff * falloff;
+      }
+    }
+    return Math.max(0, Math.min(1, value));
+  }
+}
+
+export function createSeededCenters(random: Random, count: number, spread = 5000): PopulationCenter[] {
+  const centers: PopulationCenter[] = [];
+  for (let i = 0; i < count; i++) {
+    centers.push({
+      // The first center sits on the initial highway so growth starts in a core
+      x: i === 0 ? 0 : random.range(-spread, spread),
+      y: i === 0 ? 0 : random.range(-spread, spread),
+      weight: i === 0 ? 1 : random.range(0.5, 1),
+      radius: random.range(spread * 0.4, spread * 0.9)
+    });
+  }
+  return centers;
+}
+
+// RGBA pixel buffer, structurally compatible with ImageData
+export interface PopulationImage {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+// Grayscale image stretched over a world rectangle; white is dense
+export class ImagePopulationField implements PopulationField {
+  private luminance: Float32Array;
+
+  constructor(private image: PopulationImage, private bounds: WorldBounds) {
+    const { width, height, data } = image;
+    this.luminance = new Float32Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+      const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2], a = data[i * 4 + 3];
+      this.luminance[i] = ((0.2126 * r + 0.7152 * g + 0.0722 * b) / 255) * (a / 255);
+    }
+  }
+
+  sample(x: number, y: number): number {
+    const { width, height } = this.image;
+    const u = ((x - this.bounds.x) / this.bounds.width) * width - 0.5;
+    const v = ((y - this.bounds.y) / this.bounds.height) * height - 0.5;
+    if (u < -0.5 || v < -0.5 || u > width - 0.5 || v > height - 0.5) return 0;
+
+    const x0 = Math.max(0, Math.floor(u)), y0 = Math.max(0, Math.floor(v));
+    const x1 = Math.min(width - 1, x0 + 1), y1 = Math.min(height - 1, y0 + 1);
+    const fx = Math.max(0, u - x0), fy = Math.max(0, v - y0);
+
+    const top = this.luminance[y0 * width + x0] * (1 - fx) + this.luminance[y0 * width + x1] * fx;
+    const bottom = this.luminance[y1 * width + x0] * (1 - fx) + this.luminance[y1 * width + x1] * fx;
+    return top * (1 - fy) + bottom * fy;
+  }
+}
+
+// Decodes an uploaded image into pixels. Browser/worker only.
+export async function loadPopulationImage(blob: Blob, maxSize = 512): Promise<PopulationImage> {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas context unavailable');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return ctx.getImageData(0, 0, width, height);
+}
+
+export interface PaintStroke extends Point {
+  radius: number;
+  // Positive paints density, negative erases
+  strength: number;
+}
+
+// Population painted with a brush, rasterized onto a sparse grid
+export class PaintedPopulationField implements PopulationField {
+  private cells = new Map<string, number>();
+
+  constructor(strokes: PaintStroke[] = [], private cellSize = 100) {
+    strokes.forEach(stroke => this.paint(stroke));
+  }
+
+  paint(stroke: PaintStroke) {
+    const minX = Math.floor((stroke.x - stroke.radius) / this.cellSize);
+    const maxX = Math.ceil((stroke.x + stroke.radius) / this.cellSize);
+    const minY = Math.floor((stroke.y - stroke.radius) / this.cellSize);
+    const maxY = Math.ceil((stroke.y + stroke.radius) / this.cellSize);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const d = Math.hypot(cx * this.cellSize - stroke.x, cy * this.cellSize - stroke.y) / stroke.radius;
+        if (d >= 1) continue;
+        const key = `${cx},${cy}`;
+        const falloff = (1 - d) * (1 - d);
+        const value = (this.cells.get(key) ?? 0) + stroke.strength * falloff;
+        this.cells.set(key, Math.max(0, Math.min(1, value)));
+      }
+    }
+  }
+
+  private cell(cx: number, cy: number): number {
+    return this.cells.get(`${cx},${cy}`) ?? 0;
+  }
+
+  sample(x: number, y: number): number {
+    const u = x / this.cellSize, v = y / this.cellSize;
+    const cx = Math.floor(u), cy = Math.floor(v);
+    const fx = u - cx, fy = v - cy;
+
+    const top = this.cell(cx, cy) * (1 - fx) + this.cell(cx + 1, cy) * fx;
+    const bottom = this.cell(cx, cy + 1) * (1 - fx) + this.cell(cx + 1, cy + 1) * fx;
+    return top * (1 - fy) + bottom * fy;
+  }
+}
+
+// Plain-data description of a population field, so the generation worker can
+// rebuild the same field the heatmap shows on the main thread
+export type PopulationSpec =
+  | { kind: 'noise' }
+  | { kind: 'radial'; centers: PopulationCenter[] }
+  | { kind: 'image'; image: PopulationImage; bounds: WorldBounds }
+  | { kind: 'painted'; strokes: PaintStroke[] };
+
+// Red (empty) through yellow (dense), as in hsla(intensity * 60, 80%, 50%)
+function heatmapColor(intensity: number): [number, number, number] {
+  const hue = Math.max(0, Math.min(1, intensity)) * 60;
+  // HSL to RGB for s = 0.8, l = 0.5 with the hue in the red–yellow sextant
+  const chroma = 0.8;
+  const low = 0.5 - chroma / 2;
+  return [(low + chroma) * 255, (low + chroma * hue / 60) * 255, low * 255];
+}
+
+// Rasterizes the population field over `bounds` as a translucent overlay,
+// one pixel per `cellSize` world units
+export function renderHeatmap(field: PopulationField, bounds: WorldBounds, cellSize: number, alpha = 0.3): PopulationImage {
+  const width = Math.max(1, Math.ceil(bounds.width / cellSize));
+  const height = Math.max(1, Math.ceil(bounds.height / cellSize));
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const [r, g, b] = heatmapColor(field.sample(bounds.x + (px + 0.5) * cellSize, bounds.y + (py + 0.5) * cellSize));
+      const offset = (py * width + px) * 4;
+      data[offset] = r;
+      data[offset + 1] = g;
+      data[offset + 2] = b;
+      data[offset + 3] = alpha * 255;
+    }
+  }
+
+  return { width, height, data };
+}
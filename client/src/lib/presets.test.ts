@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIG } from "@/lib/generation-config";
+import { applyPreset, CITY_PRESETS } from "@/lib/presets";
+
+const preset = (name: string) => CITY_PRESETS.find(p => p.name === name)!;
+
+describe('applyPreset', () => {
+  it('gives the same preset settings whatever preset came before', () => {
+    const direct = applyPreset(DEFAULT_CONFIG, preset('Modern'));
+    const afterOrganic = applyPreset(applyPreset(DEFAULT_CONFIG, preset('Organic')), preset('Modern'));
+    expect(afterOrganic).toEqual(direct);
+    expect(afterOrganic.ZONE_PARK_SHARE).toBe(DEFAULT_CONFIG.ZONE_PARK_SHARE);
+  });
+
+  it('keeps settings no preset touches', () => {
+    const edited = { ...DEFAULT_CONFIG, TERRAIN_ENABLED: true, TERRAIN_SEA_LEVEL: 0.45, ROAD_SNAP_DISTANCE: 80 };
+    const config = applyPreset(edited, preset('Classic'));
+    expect(config.ROAD_PATTERN).toBe('radial');
+    expect(config.TERRAIN_ENABLED).toBe(true);
+    expect(config.TERRAIN_SEA_LEVEL).toBe(0.45);
+    expect(config.ROAD_SNAP_DISTANCE).toBe(80);
+  });
+});
@@ -0,0 +1,64 @@
+import { GenerationConfig } from "@/types/road-network";
+import { CityPreset } from "@/types/city";
+import { DEFAULT_CONFIG, parseConfig } from "@/lib/generation-config";
+
+// Each preset picks a road pattern rule set and the zoning and height it suits
+export const CITY_PRESETS: CityPreset[] = [
+  {
+    name: "Modern",
+    icon: "🏙️",
+    generation: {
+      ROAD_PATTERN: 'grid',
+      GRID_PER_DISTRICT: false,
+      DEFAULT_BRANCH_PROBABILITY: 0.5,
+      ZONE_COMMERCIAL_DENSITY: 0.5,
+      BUILDING_MAX_HEIGHT: 250
+    }
+  },
+  {
+    name: "Classic",
+    icon: "🏢",
+    generation: {
+      ROAD_PATTERN: 'radial',
+      DISTRICT_COUNT: 3,
+      ZONE_CIVIC_SHARE: 0.08,
+      ZONE_PARK_SHARE: 0.08,
+      BUILDING_MAX_HEIGHT: 40
+    }
+  },
+  {
+    name: "Futuristic",
+    icon: "🚀",
+    generation: {
+      ROAD_PATTERN: 'mixed',
+      DISTRICT_COUNT: 10,
+      ZONE_COMMERCIAL_DENSITY: 0.4,
+      ZONE_INDUSTRIAL_MAX_DENSITY: 0.2,
+      BUILDING_MAX_HEIGHT: 500
+    }
+  },
+  {
+    name: "Organic",
+    icon: "🌿",
+    generation: {
+      ROAD_PATTERN: 'organic',
+      ORGANIC_DEVIATION: 30,
+      DEFAULT_BRANCH_PROBABILITY: 0.3,
+      ZONE_COMMERCIAL_DENSITY: 0.8,
+      ZONE_INDUSTRIAL_DISTANCE: 50,
+      ZONE_PARK_SHARE: 0.15,
+      BUILDING_MAX_HEIGHT: 20
+    }
+  }
+];
+
+// Every setting some preset decides. A preset resets the ones it leaves out
+// to their defaults, so the result never depends on the preset picked before.
+const PRESET_KEYS = Array.from(new Set(CITY_PRESETS.flatMap(preset => Object.keys(preset.generation)))) as Array<keyof GenerationConfig>;
+
+// Applies a preset to the current config. Settings no preset touches, such
+// as terrain and the advanced panel's other fields, are kept.
+export function applyPreset(config: GenerationConfig, preset: CityPreset): GenerationConfig {
+  const reset: Partial<GenerationConfig> = Object.fromEntries(PRESET_KEYS.map(key => [key, DEFAULT_CONFIG[key]]));
+  return parseConfig({ ...config, ...reset, ...preset.generation });
+}
@@ -0,0 +1,62 @@
+interface HeapEntry<T> {
+  item: T;
+  priority: number;
+  order: number;
+}
+
+// Binary min-heap. Items with equal priority pop in insertion order, which
+// keeps generation deterministic and matches the old linear-scan queue.
+export class PriorityQueue<T> {
+  private heap: HeapEntry<T>[] = [];
+  private counter = 0;
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(item: T, priority: number) {
+    this.heap.push({ item, priority, order: this.counter++ });
+    this.siftUp(this.heap.length - 1);
+  }
+
+  pop(): T | undefined {
+    const top = this.heap[0];
+    if (!top) return undefined;
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return top.item;
+  }
+
+  private less(a: HeapEntry<T>, b: HeapEntry<T>): boolean {
+    return a.priority < b.priority || (a.priority === b.priority && a.order < b.order);
+  }
+
+  private siftUp(index: number) {
+    const entry = this.heap[index];
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.less(entry, this.heap[parent])) break;
+      this.heap[index] = this.heap[parent];
+      index = parent;
+    }
+    this.heap[index] = entry;
+  }
+
+  private siftDown(index: number) {
+    const length = this.heap.length;
+    const entry = this.heap[index];
+    while (true) {
+      const left = index * 2 + 1;
+      if (left >= length) break;
+      const right = left + 1;
+      const child = right < length && this.less(this.heap[right], this.heap[left]) ? right : left;
+      if (!this.less(this.heap[child], entry)) break;
+      this.heap[index] = this.heap[child];
+      index = child;
+    }
+    this.heap[index] = entry;
+  }
+}
@@ -0,0 +1,99 @@
+// Seeded, splittable PRNG (sfc32 seeded through splitmix32). Uses only 32-bit
+// integer math so the same seed yields identical sequences in every engine.
+
+// FNV-1a hash, used to derive sub-stream seeds from stream names
+function hashString(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function splitmix32(state: number): () => number {
+  return () => {
+    state = (state + 0x9e3779b9) | 0;
+    let t = state ^ (state >>> 16);
+    t = Math.imul(t, 0x21f0aaad);
+    t ^= t >>> 15;
+    t = Math.imul(t, 0x735a2d97);
+    return (t ^ (t >>> 15)) >>> 0;
+  };
+}
+
+// Folds seeds wider than 32 bits (e.g. Date.now()) into a uint32
+function normalizeSeed(seed: number): number {
+  const value = Math.floor(Math.abs(seed));
+  return ((value % 0x100000000) ^ Math.floor(value / 0x100000000)) >>> 0;
+}
+
+export class Random {
+  readonly seed: number;
+  private a: number;
+  private b: number;
+  private c: number;
+  private d: number;
+
+  constructor(seed: number) {
+    this.seed = normalizeSeed(seed);
+    const init = splitmix32(this.seed);
+    this.a = init();
+    this.b = init();
+    this.c = init();
+    this.d = init();
+    // Discard the first outputs to decorrelate nearby seeds
+    for (let i = 0; i < 12; i++) this.nextUint32();
+  }
+
+  nextUint32(): number {
+    const t = (((this.a + this.b) | 0) + this.d) | 0;
+    this.d = (this.d + 1) | 0;
+    this.a = this.b ^ (this.b >>> 9);
+    this.b = (this.c + (this.c << 3)) | 0;
+    this.c = (this.c << 21) | (this.c >>> 11);
+    this.c = (this.c + t) | 0;
+    return t >>> 0;
+  }
+
+  // Uniform float in [0, 1)
+  next(): number {
+    return this.nextUint32() / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  // Independent named sub-stream. Depends only on this generator's seed and
+  // the name, so draws on one stream never shift another.
+  fork(name: string): Random {
+    return new Random(Math.imul(this.seed ^ hashString(name), 0x9e3779b1) >>> 0);
+  }
+}
+
+// Streams for building placement, kept apart so footprint draws never shift
+// the colours
+export interface RandomStreams {
+  buildings: Random;
+  colors: Random;
+}
+
+export function createRandomStreams(random: Random): RandomStreams {
+  return {
+    buildings: random.fork('buildings'),
+    colors: random.fork('colors')
+  };
+}
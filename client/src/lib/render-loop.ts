@@ -0,0 +1,44 @@
+import { Camera } from "@/types/city";
+import { CameraMotion } from "@/lib/camera-motion";
+import { Renderer, RenderOptions } from "@/lib/renderer";
+
+// Redraws on animation frames, and only when something changed: the scene,
+// the options or a moving camera. Frames are coalesced, so any number of
+// invalidations before the next frame cost one draw.
+export class RenderLoop {
+  private options: RenderOptions | null = null;
+  private frame: number | null = null;
+  // Called once the camera comes to rest after moving
+  onSettle: (() => void) | null = null;
+  // Called after every drawn frame, for widgets that track the live camera
+  onFrame: ((camera: Camera) => void) | null = null;
+
+  constructor(private renderer: Renderer, private motion: CameraMotion) {
+    motion.onChange = () => this.invalidate();
+  }
+
+  setOptions(options: RenderOptions) {
+    this.options = options;
+    this.invalidate();
+  }
+
+  invalidate() {
+    if (this.frame === null) this.frame = requestAnimationFrame(this.tick);
+  }
+
+  dispose() {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.motion.onChange = null;
+  }
+
+  private tick = (now: number) => {
+    this.frame = null;
+    const wasMoving = this.motion.isMoving;
+    const moving = this.motion.step(now);
+    if (this.options) this.renderer.render(this.motion.camera, this.options);
+    this.onFrame?.(this.motion.camera);
+    if (moving) this.invalidate();
+    else if (wasMoving) this.onSettle?.();
+  };
+}
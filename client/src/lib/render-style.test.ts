@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { distanceFromPointToLineSegment } from "@/lib/geometry";
+import { LABEL_SIZE, LABEL_STROKE, streetLabel } from "@/lib/render-style";
+
+describe('streetLabel', () => {
+  const street = { id: 1208, start: { x: 0, y: 0 }, end: { x: 60, y: 80 } };
+
+  it('writes the id within the paving around the middle of the segment', () => {
+    const strokes = streetLabel(street);
+    // 1 2 0 8 in seven segments
+    expect(strokes).toHaveLength(2 + 5 + 6 + 7);
+    const reach = (LABEL_SIZE + LABEL_STROKE) / 2;
+    strokes.flat().forEach(p => {
+      expect(distanceFromPointToLineSegment(p, street.start, street.end)).toBeLessThanOrEqual(reach + 1e-9);
+      expect(Math.hypot(p.x - 30, p.y - 40)).toBeLessThan(3 * LABEL_SIZE);
+    });
+  });
+
+  it('reads the same whichever way the segment runs', () => {
+    const reversed = streetLabel({ ...street, start: street.end, end: street.start });
+    streetLabel(street).forEach(([from, to], i) => {
+      expect(reversed[i][0].x).toBeCloseTo(from.x, 9);
+      expect(reversed[i][0].y).toBeCloseTo(from.y, 9);
+      expect(reversed[i][1].x).toBeCloseTo(to.x, 9);
+      expect(reversed[i][1].y).toBeCloseTo(to.y, 9);
+    });
+  });
+
+  it('skips segments too short to hold the label', () => {
+    expect(streetLabel({ ...street, end: { x: 6, y: 8 } })).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { LandUse, Point, Segment, UnifiedIntersection } from "@/types/road-network";
+import { LAND_USE_COLORS } from "@/lib/zoning";
+
+export const BACKGROUND_COLOR = '#1a1a1a';
+export const HIGHWAY_COLOR = '#ff6b6b';
+export const STREET_COLOR = '#4ecdc4';
+export const BRIDGE_CASING_COLOR = '#d8d8d8';
+export const BLOCK_OUTLINE_COLOR = '#4a4a4a';
+export const LOT_LINE_COLOR = '#3a3a3a';
+export const PARK_COLOR = '#2f5d34';
+export const MARKING_COLOR = 'rgba(255, 255, 255, 0.85)';
+export const DEBUG_NODE_COLOR = 'rgba(255, 0, 0, 0.7)';
+export const TOWER_TINT = 'rgba(255, 255, 255, 0.2)';
+export const CENTER_RING_COLOR = 'rgba(255, 255, 255, 0.6)';
+export const PAINT_COLOR = 'rgba(255, 160, 0, 0.15)';
+export const ERASE_COLOR = 'rgba(0, 0, 0, 0.3)';
+// Under the cursor, being inspected, and linked to an inspected segment
+export const HOVER_COLOR = 'rgba(250, 204, 21, 0.35)';
+export const SELECTED_COLOR = 'rgba(56, 189, 248, 0.5)';
+export const LINKED_COLOR = 'rgba(244, 114, 182, 0.45)';
+
+// Zebra crossings and stop lines only read when zoomed in
+export const ROAD_MARKINGS_ZOOM = 2;
+// Bridge casing overhang on each side of the deck
+export const BRIDGE_CASING = 4;
+export const DEBUG_NODE_RADIUS = 8;
+export const STOP_LINE_WIDTH = 0.5;
+// Street labels: digit height and stroke width in world units, and the
+// digit height on screen they need to be drawn
+export const LABEL_COLOR = '#1e293b';
+export const LABEL_SIZE = 4;
+export const LABEL_STROKE = 0.6;
+export const MIN_LABEL_PIXELS = 8;
+
+// What a frame draws at a given zoom: highways over land-use fills from far
+// away, every street from mid range, then buildings and fine detail
+export type DetailLevel = 'overview' | 'streets' | 'buildings';
+export const STREETS_ZOOM = 0.15;
+export const BUILDINGS_ZOOM = 0.5;
+
+export function detailLevel(zoom: number): DetailLevel {
+  if (zoom < STREETS_ZOOM) return 'overview';
+  return zoom < BUILDINGS_ZOOM ? 'streets' : 'buildings';
+}
+
+// Flat block fill for a land use, in the hue its buildings are drawn in
+export function landUseFill(landUse: LandUse): string {
+  const { hue, saturation } = LAND_USE_COLORS[landUse];
+  return `hsl(${hue}, ${saturation}%, 30%)`;
+}
+
+export interface JunctionMarkings {
+  // Zebra stripes, one quad each
+  stripes: Point[][];
+  // Stop lines, drawn STOP_LINE_WIDTH wide
+  stopLines: Array<[Point, Point]>;
+}
+
+// Zebra crossing and stop line on each street arm of a junction
+export function junctionMarkings(junction: UnifiedIntersection): JunctionMarkings {
+  const markings: JunctionMarkings = { stripes: [], stopLines: [] };
+  if (junction.kind === 'bend') return markings;
+
+  junction.connectedRoads.forEach(road => {
+    if (road.highway) return;
+    const dir = { x: Math.cos(road.angle), y: Math.sin(road.angle) };
+    const normal = { x: -dir.y, y: dir.x };
+    const half = road.width / 2;
+    const at = (along: number, across: number) => ({
+      x: road.meetingPoint.x + dir.x * along + normal.x * across,
+      y: road.meetingPoint.y + dir.y * along + normal.y * across
+    });
+
+    // Stripes run along the road, spaced across it
+    for (let across = -half + 0.3; across < half - 0.3; across += 1.2) {
+      markings.stripes.push([at(1, across), at(4, across), at(4, across + 0.6), at(1, across + 0.6)]);
+    }
+
+    // Stop line across the lane heading into the junction
+    markings.stopLines.push([at(5, 0), at(5, half)]);
+  });
+
+  return markings;
+}
+
+// Seven-segment digits on a cell half as wide as it is tall, y down
+const DIGIT_STROKES: Record<string, [number, number, number, number]> = {
+  a: [0, 0, 0.5, 0],
+  b: [0.5, 0, 0.5, 0.5],
+  c: [0.5, 0.5, 0.5, 1],
+  d: [0, 1, 0.5, 1],
+  e: [0, 0.5, 0, 1],
+  f: [0, 0, 0, 0.5],
+  g: [0, 0.5, 0.5, 0.5]
+};
+const DIGITS = ['abcdef', 'bc', 'abdeg', 'abcdg', 'bcfg', 'acdfg', 'acdefg', 'abc', 'abcdefg', 'abcdfg'];
+// Digit pitch, in digit heights
+const DIGIT_ADVANCE = 0.8;
+
+// Strokes writing a segment's id along its middle, reading left to right
+// when north is up; none when the segment is too short to hold it. Strokes
+// run half their width past each end so square joints close up.
+export function streetLabel(segment: Pick<Segment, 'id' | 'start' | 'end'>): Array<[Point, Point]> {
+  const text = String(segment.id);
+  const textLength = ((text.length - 1) * DIGIT_ADVANCE + 0.5) * LABEL_SIZE;
+  const length = Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y);
+  if (length < textLength + LABEL_SIZE * 2) return [];
+
+  let dir = { x: (segment.end.x - segment.start.x) / length, y: (segment.end.y - segment.start.y) / length };
+  if (dir.x < 0 || (dir.x === 0 && dir.y > 0)) dir = { x: -dir.x, y: -dir.y };
+  const down = { x: -dir.y, y: dir.x };
+  const center = { x: (segment.start.x + segment.end.x) / 2, y: (segment.start.y + segment.end.y) / 2 };
+  const at = (along: number, across: number) => ({
+    x: center.x + (dir.x * along + down.x * across) * LABEL_SIZE,
+    y: center.y + (dir.y * along + down.y * across) * LABEL_SIZE
+  });
+
+  const overhang = LABEL_STROKE / LABEL_SIZE / 2;
+  const strokes: Array<[Point, Point]> = [];
+  Array.from(text).forEach((digit, i) => {
+    const left = i * DIGIT_ADVANCE - textLength / LABEL_SIZE / 2;
+    Array.from(DIGITS[Number(digit)]).forEach(name => {
+      const [x0, y0, x1, y1] = DIGIT_STROKES[name];
+      // Each stroke is either across or along the cell
+      const dx = Math.sign(x1 - x0) * overhang, dy = Math.sign(y1 - y0) * overhang;
+      strokes.push([at(left + x0 - dx, y0 - 0.5 - dy), at(left + x1 + dx, y1 - 0.5 + dy)]);
+    });
+  });
+  return strokes;
+}
@@ -0,0 +1,69 @@
+import { Building, CityBlock, Parcel, Point, Segment, UnifiedRoadNetwork } from "@/types/road-network";
+import { Camera } from "@/types/city";
+import { Canvas2DRenderer } from "@/lib/canvas-renderer";
+import { ViewMode } from "@/lib/city-engine";
+import { PaintStroke, PopulationCenter, PopulationImage, WorldBounds } from "@/lib/population";
+import { WebGL2Renderer } from "@/lib/webgl-renderer";
+
+// Pixels stretched over a world rectangle
+export interface RasterLayer {
+  image: PopulationImage;
+  bounds: WorldBounds;
+}
+
+// Everything that only changes when a city is generated or a layer is rebuilt
+export interface RenderScene {
+  segments: Segment[];
+  network: UnifiedRoadNetwork | null;
+  blocks: CityBlock[];
+  parcels: Parcel[];
+  buildings: Building[];
+  relief: RasterLayer | null;
+  heatmap: RasterLayer | null;
+}
+
+// Translucent shape drawn over everything else
+export interface Highlight {
+  points: Point[];
+  color: string;
+  // Height it floats at when buildings stand up, e.g. a roof
+  height: number;
+}
+
+// Per-frame switches and interactive overlays
+export interface RenderOptions {
+  viewMode: ViewMode;
+  showDebug: boolean;
+  showHeatmap: boolean;
+  showCityBlocks: boolean;
+  // Radial population centers, outlined over the heatmap
+  centers: PopulationCenter[];
+  // Brush dabs not yet committed to the painted field
+  strokes: PaintStroke[];
+  // Hovered and inspected items
+  highlights: Highlight[];
+}
+
+export type RendererKind = 'webgl2' | 'canvas2d';
+
+export interface Renderer {
+  readonly kind: RendererKind;
+  // Uploads or caches scene geometry; cheap to call when nothing changed
+  setScene(scene: RenderScene): void;
+  render(camera: Camera, options: RenderOptions): void;
+  // Canvas size in device pixels
+  resize(width: number, height: number): void;
+  dispose(): void;
+}
+
+// WebGL2 when the browser offers it, Canvas 2D otherwise. A canvas keeps the
+// first context type it hands out, so switching backends needs a new canvas.
+export function createRenderer(canvas: HTMLCanvasElement, preferred: RendererKind = 'webgl2'): Renderer {
+  if (preferred === 'webgl2') {
+    const gl = canvas.getContext('webgl2', { antialias: true });
+    if (gl) return new WebGL2Renderer(gl);
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No 2D or WebGL2 canvas context available');
+  return new Canvas2DRenderer(ctx);
+}
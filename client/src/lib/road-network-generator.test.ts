@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { Point, Segment } from "@/types/road-network";
+import { DEFAULT_CONFIG } from "@/lib/generation-config";
+import { pointsEqual, segmentIntersection } from "@/lib/geometry";
+import { findLocalConstraint, generateRoadNetwork } from "@/lib/road-network-generator";
+
+function segment(start: Point, end: Point, id = 0): Segment {
+  return {
+    id, start, end,
+    width: 1,
+    t: 0,
+    highway: false,
+    dir: Math.atan2(end.y - start.y, end.x - start.x),
+    length: Math.hypot(end.x - start.x, end.y - start.y),
+    severed: false,
+    bridge: false,
+    links: { f: [], b: [] }
+  };
+}
+
+// Strips links so results compare without walking the whole graph
+function geometryOf(segments: Segment[]) {
+  return segments.map(({ id, start, end, highway, severed }) => ({ id, start, end, highway, severed }));
+}
+
+describe('generateRoadNetwork', () => {
+  it('produces the same network for the same seed', () => {
+    const a = generateRoadNetwork({ seed: 42, segmentLimit: 300, terrain: null });
+    const b = generateRoadNetwork({ seed: 42, segmentLimit: 300, terrain: null });
+    const c = generateRoadNetwork({ seed: 43, segmentLimit: 300, terrain: null });
+
+    expect(geometryOf(a.segments)).toEqual(geometryOf(b.segments));
+    expect(geometryOf(a.segments)).not.toEqual(geometryOf(c.segments));
+  });
+
+  it('never exceeds the segment limit', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      for (const segmentLimit of [1, 2, 17, 250]) {
+        const { segments, stats } = generateRoadNetwork({ seed, segmentLimit, terrain: null });
+        expect(segments.length).toBeLessThanOrEqual(segmentLimit);
+        expect(stats.segmentCount).toBe(segments.length);
+      }
+    }
+  });
+
+  it('grows past the seed highways for every seed with terrain on', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const { segments } = generateRoadNetwork({ seed, segmentLimit: 30, config: { TERRAIN_ENABLED: true } });
+      expect(segments.length, `seed ${seed}`).toBeGreaterThan(2);
+    }
+  });
+
+  it('gives every segment its index as id', () => {
+    const { segments } = generateRoadNetwork({ seed: 7, segmentLimit: 400, terrain: null });
+    segments.forEach((seg, i) => expect(seg.id).toBe(i));
+  });
+
+  describe('local constraints', () => {
+    const seeds = [1, 2, 3, 12345];
+    const networks = seeds.map(seed => generateRoadNetwork({ seed, segmentLimit: 500, terrain: null }).segments);
+
+    it('leaves no two roads crossing between junctions', () => {
+      for (const segments of networks) {
+        for (let i = 0; i < segments.length; i++) {
+          for (let j = i + 1; j < segments.length; j++) {
+            const [a, b] = [segments[i], segments[j]];
+            expect(segmentIntersection(a.start, a.end, b.start, b.end, true)).toBeNull();
+          }
+        }
+      }
+    });
+
+    it('ends every severed road on another road\'s node', () => {
+      for (const segments of networks) {
+        const severed = segments.filter(seg => seg.severed);
+        expect(severed.length).toBeGreaterThan(0);
+        for (const seg of severed) {
+          expect(seg.links.f.length).toBeGreaterThan(0);
+          for (const link of seg.links.f) {
+            expect(pointsEqual(link.start, seg.end) || pointsEqual(link.end, seg.end)).toBe(true);
+          }
+        }
+      }
+    });
+
+    it('keeps junction angles above the minimum deviation', () => {
+      for (const segments of networks) {
+        for (const seg of segments.filter(s => s.severed)) {
+          const arriving = Math.atan2(seg.start.y - seg.end.y, seg.start.x - seg.end.x);
+          for (const link of seg.links.f) {
+            const leaving = pointsEqual(link.start, seg.end) ? link.dir : link.dir + Math.PI;
+            let diff = Math.abs(leaving - arriving) % (2 * Math.PI);
+            if (diff > Math.PI) diff = 2 * Math.PI - diff;
+            expect(diff * 180 / Math.PI).toBeGreaterThanOrEqual(DEFAULT_CONFIG.MINIMUM_INTERSECTION_DEVIATION - 1e-6);
+          }
+        }
+      }
+    });
+  });
+});
+
+describe('findLocalConstraint', () => {
+  const snapDistance = 10;
+
+  it('turns the closest crossing into an intersection', () => {
+    const proposal = segment({ x: 0, y: 0 }, { x: 100, y: 0 });
+    const far = segment({ x: 60, y: -50 }, { x: 60, y: 50 }, 1);
+    const near = segment({ x: 30, y: -50 }, { x: 30, y: 50 }, 2);
+
+    const constraint = findLocalConstraint(proposal, [far, near], snapDistance);
+    expect(constraint).toEqual({ kind: 'intersect', other: near, point: { x: 30, y: 0 } });
+  });
+
+  it('prefers a crossing over a nearby junction', () => {
+    const proposal = segment({ x: 0, y: 0 }, { x: 100, y: 0 });
+    const junction = segment({ x: 105, y: 0 }, { x: 105, y: 50 }, 1);
+    const crossing = segment({ x: 50, y: -50 }, { x: 50, y: 50 }, 2);
+
+    expect(findLocalConstraint(proposal, [junction, crossing], snapDistance)?.kind).toBe('intersect');
+  });
+
+  it('snaps to the nearest junction within the snap distance', () => {
+    const proposal = segment({ x: 0, y: 0 }, { x: 100, y: 0 });
+    const farther = segment({ x: 100, y: 8 }, { x: 100, y: 60 }, 1);
+    const nearest = segment({ x: 103, y: 50 }, { x: 103, y: 2 }, 2);
+    const outOfReach = segment({ x: 100, y: -11 }, { x: 100, y: -60 }, 3);
+
+    const constraint = findLocalConstraint(proposal, [farther, nearest, outOfReach], snapDistance);
+    expect(constraint).toEqual({ kind: 'snap', other: nearest, atEnd: true });
+  });
+
+  it('prefers a junction over extending onto a road', () => {
+    const proposal = segment({ x: 0, y: 0 }, { x: 100, y: 0 });
+    const road = segment({ x: 106, y: -50 }, { x: 106, y: 50 }, 1);
+    const junction = segment({ x: 104, y: 5 }, { x: 104, y: 50 }, 2);
+
+    expect(findLocalConstraint(proposal, [road, junction], snapDistance)?.kind).toBe('snap');
+  });
+
+  it('extends onto the nearest road just short of the end', () => {
+    const proposal = segment({ x: 0, y: 0 }, { x: 100, y: 0 });
+    const farther = segment({ x: 108, y: -50 }, { x: 108, y: 50 }, 1);
+    const nearest = segment({ x: 104, y: -50 }, { x: 104, y: 50 }, 2);
+
+    const constraint = findLocalConstraint(proposal, [farther, nearest], snapDistance);
+    expect(constraint).toEqual({ kind: 'extend', other: nearest, point: { x: 104, y: 0 } });
+  });
+
+  it('rejects a snap that would cross a third road', () => {
+    const proposal = segment({ x: 0, y: 0 }, { x: 100, y: 0 });
+    const junction = segment({ x: 100, y: 9 }, { x: 100, y: 60 }, 1);
+    // Clear of the proposal, but across the line to the junction
+    const third = segment({ x: 90, y: 4 }, { x: 90, y: 60 }, 2);
+
+    expect(findLocalConstraint(proposal, [junction], snapDistance)?.kind).toBe('snap');
+    expect(findLocalConstraint(proposal, [junction, third], snapDistance)).toEqual({ kind: 'reject' });
+  });
+
+  it('leaves a proposal with nothing in reach alone', () => {
+    const proposal = segment({ x: 0, y: 0 }, { x: 100, y: 0 });
+    const road = segment({ x: 200, y: -50 }, { x: 200, y: 50 }, 1);
+
+    expect(findLocalConstraint(proposal, [road], snapDistance)).toBeNull();
+  });
+});
@@ -0,0 +1,444 @@
+import {
+  GenerationConfig,
+  GenerationInput,
+  GenerationPhase,
+  GenerationProgress,
+  GenerationResult,
+  Point,
+  PopulationField,
+  Segment,
+  Terrain
+} from "@/types/road-network";
+import {
+  closestPointOnSegment,
+  minDegreeDifference,
+  pointsEqual,
+  segmentIntersection
+} from "@/lib/geometry";
+import { parseConfig } from "@/lib/generation-config";
+import { NoisePopulationField } from "@/lib/population";
+import { PriorityQueue } from "@/lib/priority-queue";
+import { RoadPatternRules } from "@/lib/road-patterns";
+import { segmentBounds, SpatialGrid } from "@/lib/spatial-index";
+import { createConfigTerrain, profileSegment } from "@/lib/terrain";
+import { Random } from "@/lib/random";
+
+// Population field the generator grows over when none is supplied.
+// The heatmap overlay uses the same field so it matches the roads.
+export function createConfigPopulation(seed: number, config: GenerationConfig): PopulationField {
+  return new NoisePopulationField(seed, {
+    type: config.HEATMAP_NOISE_TYPE,
+    octaves: config.HEATMAP_OCTAVES,
+    frequency: config.HEATMAP_FREQUENCY,
+    persistence: config.HEATMAP_PERSISTENCE,
+    lacunarity: config.HEATMAP_LACUNARITY,
+    warp: config.HEATMAP_DOMAIN_WARP
+  });
+}
+
+// Minimum time between progress reports while placing roads
+const PROGRESS_INTERVAL_MS = 50;
+
+// What the local constraints do with a proposed segment's end
+export type LocalConstraint =
+  | { kind: 'intersect'; other: Segment; point: Point }
+  | { kind: 'snap'; other: Segment; atEnd: boolean }
+  | { kind: 'extend'; other: Segment; point: Point }
+  | { kind: 'reject' };
+
+// Local constraints (Parish & Müller): the closest crossing becomes an
+// intersection, otherwise the end snaps to the nearest junction within
+// snapDistance, otherwise it extends onto the nearest road just short of it.
+// A snap or extension that would carry the road across another one is
+// rejected. Candidates are scanned in order, so ties go to the earliest.
+export function findLocalConstraint(segment: Segment, candidates: Segment[], snapDistance: number): LocalConstraint | null {
+  let crossing: LocalConstraint | null = null;
+  let closestCrossing = Infinity;
+  let snap: Extract<LocalConstraint, { kind: 'snap' }> | null = null;
+  let closestSnap = Infinity;
+  let extend: Extract<LocalConstraint, { kind: 'extend' }> | null = null;
+  let closestExtend = Infinity;
+
+  for (const other of candidates) {
+    const hit = segmentIntersection(segment.start, segment.end, other.start, other.end, true);
+    if (hit && hit.t < closestCrossing) {
+      closestCrossing = hit.t;
+      crossing = { kind: 'intersect', other, point: { x: hit.x, y: hit.y } };
+    }
+
+    for (const atEnd of [true, false]) {
+      const node = atEnd ? other.end : other.start;
+      const distance = Math.hypot(segment.end.x - node.x, segment.end.y - node.y);
+      if (distance <= snapDistance && distance < closestSnap) {
+        closestSnap = distance;
+        snap = { kind: 'snap', other, atEnd };
+      }
+    }
+
+    const closest = closestPointOnSegment(segment.end, other.start, other.end);
+    if (closest.distance < snapDistance && closest.t > 0 && closest.t < 1 && closest.distance < closestExtend) {
+      closestExtend = closest.distance;
+      extend = { kind: 'extend', other, point: closest.point };
+    }
+  }
+
+  if (crossing) return crossing;
+  if (!snap && !extend) return null;
+
+  // Moving the end can swing the road over a third one
+  const end = snap ? (snap.atEnd ? snap.other.end : snap.other.start) : extend!.point;
+  const crosses = candidates.some(other => segmentIntersection(segment.start, end, other.start, other.end, true));
+  return crosses ? { kind: 'reject' } : snap ?? extend;
+}
+
+// Headless Parish–Müller style road network generator. Has no DOM
+// dependencies so it can run in a worker, on the server or in a script.
+export class RoadNetworkGenerator {
+  private random: Random;
+  private segmentLimit: number;
+  private config: GenerationConfig;
+  private population: PopulationField;
+  private patterns: RoadPatternRules;
+  private terrain: Terrain | null;
+  private onProgress?: (progress: GenerationProgress) => void;
+  private segments: Segment[] = [];
+  private index = new SpatialGrid<Segment>(1);
+  private intersectionCount = 0;
+
+  constructor(input: GenerationInput) {
+    this.random = input.random ?? new Random(input.seed);
+    this.segmentLimit = input.segmentLimit;
+    this.config = parseConfig(input.config);
+    this.population = input.population ?? createConfigPopulation(input.seed, this.config);
+    this.patterns = new RoadPatternRules(this.config, this.random.fork('districts'));
+    this.terrain = input.terrain !== undefined ? input.terrain : createConfigTerrain(input.seed, this.config);
+    this.onProgress = input.onProgress;
+  }
+
+  generate(): GenerationResult {
+    const startTime = performance.now();
+    const roadRandom = this.random.fork('roads');
+
+    const priorityQ = new PriorityQueue<Segment>();
+    const segments: Segment[] = [];
+    this.segments = segments;
+    this.index = new SpatialGrid<Segment>(this.config.HIGHWAY_SEGMENT_LENGTH);
+    this.intersectionCount = 0;
+    let iterations = 0;
+    let rejectedCount = 0;
+    let lastProgress = startTime;
+
+    // Create initial highway segments (from original)
+    const rootSegment = this.createSegment(
+      { x: 0, y: 0 },
+      { x: this.config.HIGHWAY_SEGMENT_LENGTH, y: 0 },
+      0,
+      true
+    );
+
+    const oppositeSegment = this.createSegment(
+      { x: -this.config.HIGHWAY_SEGMENT_LENGTH, y: 0 },
+      { x: 0, y: 0 },
+      0,
+      true
+    );
+
+    // Link initial segments
+    rootSegment.links.b.push(oppositeSegment);
+    oppositeSegment.links.f.push(rootSegment);
+
+    priorityQ.push(rootSegment, rootSegment.t);
+    priorityQ.push(oppositeSegment, oppositeSegment.t);
+    // Accepted as placed, so terrain or each other can't leave the city empty
+    const roots = [rootSegment, oppositeSegment];
+
+    // Main generation loop: pop the segment with minimum t
+    while (priorityQ.size > 0 && segments.length < this.segmentLimit) {
+      iterations++;
+
+      const currentSegment = priorityQ.pop()!;
+
+      // Apply local constraints
+      const accepted = roots.includes(currentSegment) || this.localConstraints(currentSegment);
+
+      if (!accepted) {
+        rejectedCount++;
+        this.detach(currentSegment);
+      } else {
+        currentSegment.id = segments.length;
+        segments.push(currentSegment);
+        this.index.insert(currentSegment, segmentBounds(currentSegment.start, currentSegment.end));
+
+        // Generate new segments using global goals
+        const newBranches = this.globalGoals(currentSegment, roadRandom);
+        newBranches.forEach(branch => {
+          branch.t = currentSegment.t + 1 + branch.t;
+          priorityQ.push(branch, branch.t);
+        });
+      }
+
+      if (this.onProgress && iterations % 100 === 0 && performance.now() - lastProgress > PROGRESS_INTERVAL_MS) {
+        lastProgress = performance.now();
+        this.reportProgress('roads', priorityQ.size);
+      }
+    }
+
+    return {
+      segments,
+      stats: {
+        segmentCount: segments.length,
+        highwayCount: segments.filter(seg => seg.highway).length,
+        rejectedCount,
+        intersectionCount: this.intersectionCount,
+        bridgeCount: segments.filter(seg => seg.bridge).length,
+        iterations,
+        durationMs: performance.now() - startTime
+      }
+    };
+  }
+
+  private createSegment(start: Point, end: Point, t: number, highway: boolean): Segment {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    const dir = Math.atan2(dy, dx);
+
+    return {
+      id: 0,
+      start, end,
+      width: highway ? this.config.HIGHWAY_SEGMENT_WIDTH : this.config.DEFAULT_SEGMENT_WIDTH, // Visual rendering width
+      t, highway, dir, length,
+      severed: false,
+      bridge: false,
+      links: { f: [], b: [] }
+    };
+  }
+
+  // Applies the local constraints to a proposal. Returns false to reject.
+  private localConstraints(segment: Segment): boolean {
+    if (!this.terrainConstraints(segment)) return false;
+
+    const snapDistance = this.config.ROAD_SNAP_DISTANCE;
+    // Nearby accepted segments, in acceptance order
+    const candidates = this.index
+      .query(segmentBounds(segment.start, segment.end, snapDistance))
+      .sort((a, b) => a.id - b.id);
+
+    const constraint = findLocalConstraint(segment, candidates, snapDistance);
+    if (!constraint) return true;
+    if (constraint.kind === 'reject') return false;
+    if (constraint.kind === 'snap') return this.snapToJunction(segment, constraint.other, constraint.atEnd);
+
+    // Splitting a road adds a segment too, which has to fit the budget
+    if (this.segments.length + 2 > this.segmentLimit) return false;
+    return constraint.kind === 'intersect'
+      ? this.createIntersection(segment, constraint.other, constraint.point)
+      : this.extendToRoad(segment, constraint.other, constraint.point);
+  }
+
+  // Terrain constraints: bend proposals away from water and steep slopes,
+  // letting highways bridge water spans up to BRIDGE_MAX_LENGTH
+  private terrainConstraints(segment: Segment): boolean {
+    if (!this.terrain) return true;
+
+    const { TERRAIN_BEND_ANGLE, BRIDGE_MAX_LENGTH } = this.config;
+    const bendStep = TERRAIN_BEND_ANGLE * Math.PI / 180 / 3;
+    const bends = bendStep > 0 ? [0, bendStep, -bendStep, 2 * bendStep, -2 * bendStep, 3 * bendStep, -3 * bendStep] : [0];
+    // Highways may stretch to reach the far shore
+    const stretches = segment.highway ? [0, 0.25, 0.5, 0.75, 1].map(f => f * BRIDGE_MAX_LENGTH) : [0];
+
+    for (const bend of bends) {
+      const dir = segment.dir + bend;
+      for (const stretch of stretches) {
+        const length = segment.length + stretch;
+        const end = { x: segment.start.x + Math.cos(dir) * length, y: segment.start.y + Math.sin(dir) * length };
+        const crossing = this.terrainCrossing(segment, end);
+        if (crossing === 'blocked') continue;
+
+        if (bend !== 0 || stretch !== 0) this.setEnd(segment, end);
+        segment.bridge = crossing === 'bridge';
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private terrainCrossing(segment: Segment, end: Point): 'land' | 'bridge' | 'blocked' {
+    const profile = profileSegment(this.terrain!, segment.start, end);
+    if (profile.endsInWater || profile.maxSlope > this.config.MAX_ROAD_SLOPE) return 'blocked';
+    if (profile.longestWater === 0) return 'land';
+    return segment.highway && profile.longestWater <= this.config.BRIDGE_MAX_LENGTH ? 'bridge' : 'blocked';
+  }
+
+  private createIntersection(segment: Segment, other: Segment, point: Point): boolean {
+    if (minDegreeDifference(segment.dir, other.dir) < this.config.MINIMUM_INTERSECTION_DEVIATION) return false;
+
+    this.splitSegment(other, point, segment);
+    this.setEnd(segment, { x: point.x, y: point.y });
+    segment.severed = true;
+    this.intersectionCount++;
+    return true;
+  }
+
+  private snapToJunction(segment: Segment, other: Segment, atEnd: boolean): boolean {
+    const node = atEnd ? other.end : other.start;
+    const nodeLinks = atEnd ? other.links.f : other.links.b;
+    const roadsAtNode = [other, ...nodeLinks];
+    const arrivingDir = Math.atan2(segment.start.y - node.y, segment.start.x - node.x);
+
+    for (const road of roadsAtNode) {
+      const startsHere = pointsEqual(road.start, node);
+      // Same road already connects these two points
+      if (pointsEqual(startsHere ? road.end : road.start, segment.start)) return false;
+
+      const roadDir = startsHere ? road.dir : road.dir + Math.PI;
+      let diff = Math.abs(roadDir - arrivingDir) % (2 * Math.PI);
+      if (diff > Math.PI) diff = 2 * Math.PI - diff;
+      if (diff * 180 / Math.PI < this.config.MINIMUM_INTERSECTION_DEVIATION) return false;
+    }
+
+    this.setEnd(segment, { ...node });
+    segment.severed = true;
+
+    for (const link of nodeLinks) {
+      (pointsEqual(link.start, node) ? link.links.b : link.links.f).push(segment);
+      segment.links.f.push(link);
+    }
+    nodeLinks.push(segment);
+    segment.links.f.push(other);
+    this.intersectionCount++;
+    return true;
+  }
+
+  private extendToRoad(segment: Segment, other: Segment, point: Point): boolean {
+    this.setEnd(segment, { ...point });
+    if (minDegreeDifference(segment.dir, other.dir) < this.config.MINIMUM_INTERSECTION_DEVIATION) return false;
+
+    this.splitSegment(other, point, segment);
+    segment.severed = true;
+    this.intersectionCount++;
+    return true;
+  }
+
+  // Splits `other` at `point` into two accepted segments joined by `segment`
+  private splitSegment(other: Segment, point: Point, segment: Segment) {
+    const head = this.createSegment(other.start, { ...point }, other.t, other.highway);
+
+    // The head inherits everything attached at other's start
+    head.links.b = other.links.b;
+    head.links.b.forEach(link => {
+      const list = link.links.b.includes(other) ? link.links.b : link.links.f;
+      list[list.indexOf(other)] = head;
+    });
+    head.links.f = [other, segment];
+
+    other.start = { ...point };
+    other.length = Math.hypot(other.end.x - other.start.x, other.end.y - other.start.y);
+    other.links.b = [head, segment];
+    segment.links.f.push(head, other);
+
+    head.id = this.segments.length;
+    this.segments.push(head);
+    this.index.insert(head, segmentBounds(head.start, head.end));
+    this.index.update(other, segmentBounds(other.start, other.end));
+  }
+
+  private setEnd(segment: Segment, end: Point) {
+    segment.end = end;
+    segment.length = Math.hypot(end.x - segment.start.x, end.y - segment.start.y);
+    segment.dir = Math.atan2(end.y - segment.start.y, end.x - segment.start.x);
+  }
+
+  // Drops links a rejected proposal picked up in globalGoals
+  private detach(segment: Segment) {
+    segment.links.b.forEach(link => {
+      link.links.f = link.links.f.filter(s => s !== segment);
+      link.links.b = link.links.b.filter(s => s !== segment);
+    });
+  }
+
+  // Global goals: highways follow population, streets fill populated areas
+  // following the road pattern rules. Every probability, threshold and delay
+  // comes from the config.
+  private globalGoals(previousSegment: Segment, random: Random): Segment[] {
+    const newBranches: Segment[] = [];
+
+    if (previousSegment.severed) return newBranches;
+
+    const {
+      HIGHWAY_SEGMENT_LENGTH,
+      DEFAULT_SEGMENT_LENGTH,
+      HIGHWAY_BRANCH_PROBABILITY,
+      DEFAULT_BRANCH_PROBABILITY,
+      HIGHWAY_BRANCH_POPULATION_THRESHOLD,
+      NORMAL_BRANCH_POPULATION_THRESHOLD,
+      NORMAL_BRANCH_TIME_DELAY_FROM_HIGHWAY,
+      NORMAL_BRANCH_TIME_DELAY,
+      HIGHWAY_CURVE_DEVIATION
+    } = this.config;
+
+    const from = previousSegment.end;
+    const extend = (dir: number, length: number, t: number, highway: boolean) => this.createSegment(
+      { ...from },
+      { x: from.x + Math.cos(dir) * length, y: from.y + Math.sin(dir) * length },
+      t,
+      highway
+    );
+    const streetBranch = () => this.patterns.branchDirection(previousSegment, random);
+
+    const population = this.population.sample(from.x, from.y);
+
+    if (previousSegment.highway) {
+      // Highways continue but can curve toward higher population
+      const continueStraight = extend(previousSegment.dir, HIGHWAY_SEGMENT_LENGTH, 0, true);
+      const curveAngle = previousSegment.dir + (random.next() - 0.5) * 2 * HIGHWAY_CURVE_DEVIATION * Math.PI / 180;
+      const curvedPath = extend(curveAngle, HIGHWAY_SEGMENT_LENGTH, 0, true);
+
+      const straightPop = this.population.sample(continueStraight.end.x, continueStraight.end.y);
+      const curvedPop = this.population.sample(curvedPath.end.x, curvedPath.end.y);
+
+      // Choose path with higher population
+      if (curvedPop > straightPop) {
+        newBranches.push(curvedPath);
+      } else {
+        newBranches.push(continueStraight);
+      }
+
+      // Highways occasionally branch into new highways in dense areas
+      if (population > HIGHWAY_BRANCH_POPULATION_THRESHOLD && random.next() < HIGHWAY_BRANCH_PROBABILITY) {
+        const branchDir = previousSegment.dir + (random.next() < 0.5 ? -Math.PI / 2 : Math.PI / 2);
+        newBranches.push(extend(branchDir, HIGHWAY_SEGMENT_LENGTH, 0, true));
+      }
+
+      // Streets branch off highways after a delay so highways grow first
+      if (population > NORMAL_BRANCH_POPULATION_THRESHOLD && random.next() < DEFAULT_BRANCH_PROBABILITY) {
+        newBranches.push(extend(streetBranch(), DEFAULT_SEGMENT_LENGTH, NORMAL_BRANCH_TIME_DELAY_FROM_HIGHWAY, false));
+      }
+    } else if (population > NORMAL_BRANCH_POPULATION_THRESHOLD) {
+      // Streets continue straight only in populated areas
+      const continueDir = this.patterns.continueDirection(previousSegment, random);
+      newBranches.push(extend(continueDir, DEFAULT_SEGMENT_LENGTH, 0, false));
+
+      if (random.next() < DEFAULT_BRANCH_PROBABILITY) {
+        newBranches.push(extend(streetBranch(), DEFAULT_SEGMENT_LENGTH, NORMAL_BRANCH_TIME_DELAY, false));
+      }
+    }
+
+    // Setup links for all new branches
+    newBranches.forEach(branch => {
+      branch.links.b.push(previousSegment);
+      previousSegment.links.f.push(branch);
+    });
+
+    return newBranches;
+  }
+
+  private reportProgress(phase: GenerationPhase, queueSize: number) {
+    this.onProgress?.({ phase, segmentCount: this.segments.length, segmentLimit: this.segmentLimit, queueSize });
+  }
+}
+
+export function generateRoadNetwork(input: GenerationInput): GenerationResult {
+  return new RoadNetworkGenerator(input).generate();
+}
@@ -0,0 +1,113 @@
+import {
+  isWorkerMessage,
+  PROTOCOL_VERSION,
+  WorkerProgressPayloads,
+  WorkerRequest,
+  WorkerRequestKind,
+  WorkerRequestPayloads,
+  WorkerResponse,
+  WorkerResponsePayloads
+} from "@/lib/worker-protocol";
+
+interface PendingRequest {
+  kind: WorkerRequestKind;
+  resolve: (payload: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: unknown) => void;
+}
+
+// Main-thread side of the road network worker. Only the latest request of
+// each kind is live: an older request settles with null as soon as a newer
+// one of the same kind is sent, and its eventual response is dropped.
+// The pipeline runs synchronously inside the worker, so cancelling a running
+// request means replacing the worker.
+export class RoadNetworkWorker {
+  private worker: Worker;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private latest = new Map<WorkerRequestKind, number>();
+
+  constructor() {
+    this.worker = this.spawn();
+  }
+
+  request<K extends WorkerRequestKind>(
+    kind: K,
+    payload: WorkerRequestPayloads[K],
+    onProgress?: (progress: WorkerProgressPayloads[K]) => void
+  ): Promise<WorkerResponsePayloads[K] | null> {
+    this.cancel(kind);
+    const id = this.nextId++;
+    this.latest.set(kind, id);
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, {
+        kind,
+        resolve: resolve as PendingRequest['resolve'],
+        reject,
+        onProgress: onProgress as PendingRequest['onProgress']
+      });
+      const request: WorkerRequest<K> = { version: PROTOCOL_VERSION, id, kind, payload };
+      this.worker.postMessage(request);
+    });
+  }
+
+  // Abandons the live request of `kind`, if any; it settles with null
+  cancel(kind: WorkerRequestKind) {
+    const id = this.latest.get(kind);
+    if (id === undefined || !this.pending.has(id)) return;
+    this.latest.delete(kind);
+    this.restart();
+  }
+
+  terminate() {
+    this.worker.terminate();
+    this.settleAll();
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(new URL('../workers/road-network.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<unknown>) => this.handleMessage(e.data);
+    worker.onerror = (e) => {
+      const error = new Error(e.message || 'Road network worker failed');
+      this.pending.forEach(request => request.reject(error));
+      this.pending.clear();
+    };
+    return worker;
+  }
+
+  // Everything in flight is lost with the old worker
+  private restart() {
+    this.worker.terminate();
+    this.settleAll();
+    this.worker = this.spawn();
+  }
+
+  private settleAll() {
+    this.pending.forEach(request => request.resolve(null));
+    this.pending.clear();
+  }
+
+  private handleMessage(data: unknown) {
+    if (!isWorkerMessage(data)) return;
+    const response = data as WorkerResponse;
+
+    // Stale or already settled
+    const request = this.pending.get(response.id);
+    if (!request || request.kind !== response.kind) return;
+
+    if (response.type === 'progress') {
+      request.onProgress?.(response.payload);
+      return;
+    }
+    this.pending.delete(response.id);
+
+    if (response.version !== PROTOCOL_VERSION) {
+      request.reject(new Error(`Worker protocol mismatch: expected ${PROTOCOL_VERSION}, got ${response.version}`));
+    } else if (response.type === 'result') {
+      request.resolve(response.payload);
+    } else {
+      request.reject(new Error(response.error));
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { GenerationConfig, Point, Segment } from "@/types/road-network";
+import { Random } from "@/lib/random";
+
+export type RoadPatternKind = 'basic' | 'grid' | 'radial' | 'organic' | 'mixed';
+type DistrictPattern = Exclude<RoadPatternKind, 'mixed'>;
+
+export interface District {
+  center: Point;
+  // Grid axis in radians
+  angle: number;
+  // Rule set used when the city pattern is 'mixed'
+  pattern: DistrictPattern;
+}
+
+const MIXED_PATTERNS: DistrictPattern[] = ['grid', 'radial', 'organic'];
+const QUARTER_TURN = Math.PI / 2;
+
+// Seeded Voronoi districts. The first district is centered on the origin,
+// where the initial highway starts.
+export function createDistricts(random: Random, count: number, spread: number): District[] {
+  const districts: District[] = [];
+  for (let i = 0; i < count; i++) {
+    districts.push({
+      center: i === 0 ? { x: 0, y: 0 } : { x: random.range(-spread, spread), y: random.range(-spread, spread) },
+      angle: random.range(0, QUARTER_TURN),
+      pattern: random.pick(MIXED_PATTERNS)
+    });
+  }
+  return districts;
+}
+
+// Street direction rules. Highways keep following population; these decide
+// how streets continue and branch for each road pattern.
+export class RoadPatternRules {
+  readonly districts: District[];
+
+  constructor(private config: GenerationConfig, random: Random) {
+    this.districts = createDistricts(random, Math.max(1, config.DISTRICT_COUNT), config.DISTRICT_SPREAD);
+  }
+
+  districtAt(point: Point): District {
+    let nearest = this.districts[0];
+    let nearestDistance = Infinity;
+    for (const district of this.districts) {
+      const d = (point.x - district.center.x) ** 2 + (point.y - district.center.y) ** 2;
+      if (d < nearestDistance) {
+        nearestDistance = d;
+        nearest = district;
+      }
+    }
+    return nearest;
+  }
+
+  patternAt(point: Point): DistrictPattern {
+    const pattern = this.config.ROAD_PATTERN;
+    return pattern === 'mixed' ? this.districtAt(point).pattern : pattern;
+  }
+
+  // Direction for a street continuing on from `previous`
+  continueDirection(previous: Segment, random: Random): number {
+    const point = previous.end;
+    switch (this.patternAt(point)) {
+      case 'grid':
+        return this.snapToGrid(previous.dir, this.gridAngle(point));
+      case 'radial':
+        return this.radialDirection(previous.dir, point);
+      case 'organic':
+        return previous.dir + this.organicDeviation(random);
+      default:
+        return previous.dir;
+    }
+  }
+
+  // Direction for a street branching off `previous` (street or highway)
+  branchDirection(previous: Segment, random: Random): number {
+    const point = previous.end;
+    const side = random.next() < 0.5 ? -QUARTER_TURN : QUARTER_TURN;
+    switch (this.patternAt(point)) {
+      case 'grid':
+        return this.snapToGrid(previous.dir, this.gridAngle(point)) + side;
+      case 'radial':
+        return this.radialDirection(previous.dir, point) + side;
+      case 'organic':
+        return previous.dir + side + this.organicDeviation(random);
+      default:
+        return previous.dir + side;
+    }
+  }
+
+  private gridAngle(point: Point): number {
+    if (this.config.ROAD_PATTERN === 'mixed' || this.config.GRID_PER_DISTRICT) {
+      return this.districtAt(point).angle;
+    }
+    return this.config.GRID_ANGLE * Math.PI / 180;
+  }
+
+  // Nearest of the four axis directions
+  private snapToGrid(dir: number, axis: number): number {
+    return axis + Math.round((dir - axis) / QUARTER_TURN) * QUARTER_TURN;
+  }
+
+  // Spoke or ring direction around the nearest center, whichever is closest
+  // to the current heading
+  private radialDirection(dir: number, point: Point): number {
+    const { center } = this.districtAt(point);
+    if (Math.hypot(point.x - center.x, point.y - center.y) < 1) return dir;
+    const spoke = Math.atan2(point.y - center.y, point.x - center.x);
+    return this.snapToGrid(dir, spoke);
+  }
+
+  private organicDeviation(random: Random): number {
+    return random.range(-1, 1) * this.config.ORGANIC_DEVIATION * Math.PI / 180;
+  }
+}
@@ -0,0 +1,179 @@
+import { Building, CityBlock, Parcel, Point, RoadEdge, Segment, UnifiedIntersection } from "@/types/road-network";
+import { boundsContain, Bounds, polygonBounds, segmentBounds, SpatialGrid } from "@/lib/spatial-index";
+import { dominantLandUse } from "@/lib/zoning";
+import { buildingContains } from "@/lib/buildings";
+import { distanceFromPointToLineSegment, pointInPolygon } from "@/lib/geometry";
+import { DetailLevel, landUseFill } from "@/lib/render-style";
+import type { RenderScene } from "@/lib/renderer";
+
+// Grid cell size in world units: a few street blocks across
+const CELL_SIZE = 250;
+
+// One kind of scene item in a grid, plus the extent of them all so a view
+// covering everything skips the grid walk
+class Layer<T> {
+  private grid = new SpatialGrid<T>(CELL_SIZE);
+  private items: T[] = [];
+  private extent: Bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+
+  add(item: T, bounds: Bounds) {
+    this.grid.insert(item, bounds);
+    this.items.push(item);
+    this.extent = {
+      minX: Math.min(this.extent.minX, bounds.minX),
+      minY: Math.min(this.extent.minY, bounds.minY),
+      maxX: Math.max(this.extent.maxX, bounds.maxX),
+      maxY: Math.max(this.extent.maxY, bounds.maxY)
+    };
+  }
+
+  query(view: Bounds): T[] {
+    if (this.items.length === 0) return this.items;
+    return boundsContain(view, this.extent) ? this.items : this.grid.query(view);
+  }
+}
+
+// Something drawn in the scene that can be picked with the pointer
+export type HitTarget =
+  | { kind: 'building'; item: Building }
+  | { kind: 'junction'; item: UnifiedIntersection }
+  | { kind: 'segment'; item: Segment }
+  | { kind: 'block'; item: CityBlock };
+
+// Ground outline of a picked item: the paved band for a segment
+export function targetOutline(target: HitTarget): Point[] {
+  switch (target.kind) {
+    case 'building':
+      return target.item.footprint;
+    case 'junction':
+      return target.item.polygon;
+    case 'block':
+      return target.item.points;
+    case 'segment': {
+      const { start, end, width } = target.item;
+      const length = Math.max(Math.hypot(end.x - start.x, end.y - start.y), 1e-9);
+      const nx = -(end.y - start.y) / length * width / 2;
+      const ny = (end.x - start.x) / length * width / 2;
+      return [
+        { x: start.x + nx, y: start.y + ny },
+        { x: end.x + nx, y: end.y + ny },
+        { x: end.x - nx, y: end.y - ny },
+        { x: start.x - nx, y: start.y - ny }
+      ];
+    }
+  }
+}
+
+// Spatial lookup over everything a renderer draws, so a frame only touches
+// what is on screen. Queries may return items just outside the view.
+export class SceneIndex {
+  private highwayLayer = new Layer<RoadEdge>();
+  private streetLayer = new Layer<RoadEdge>();
+  private junctionLayer = new Layer<UnifiedIntersection>();
+  private segmentLayer = new Layer<Segment>();
+  private blockLayer = new Layer<CityBlock>();
+  private parcelLayer = new Layer<Parcel>();
+  private buildingLayer = new Layer<Building>();
+  // Flat fill per block id, from the land use covering most of it
+  readonly blockFills = new Map<number, string>();
+  // Height of the tallest roof, for picking buildings that lean
+  private tallest = 0;
+
+  constructor(scene: RenderScene) {
+    scene.network?.edges.forEach(edge => {
+      const layer = edge.highway ? this.highwayLayer : this.streetLayer;
+      layer.add(edge, segmentBounds(edge.start, edge.end, edge.width / 2));
+    });
+    scene.network?.intersections.forEach(junction => this.junctionLayer.add(junction, polygonBounds(junction.polygon)));
+    scene.segments.forEach(segment => this.segmentLayer.add(segment, segmentBounds(segment.start, segment.end, segment.width / 2)));
+    scene.blocks.forEach(block => this.blockLayer.add(block, polygonBounds(block.points)));
+    scene.parcels.forEach(parcel => this.parcelLayer.add(parcel, polygonBounds(parcel.points)));
+    scene.buildings.forEach(building => {
+      this.buildingLayer.add(building, polygonBounds(building.footprint));
+      this.tallest = Math.max(this.tallest, building.tower ? building.tower.height : building.height);
+    });
+
+    dominantLandUse(scene.parcels).forEach((landUse, blockId) => this.blockFills.set(blockId, landUseFill(landUse)));
+  }
+
+  highways(view: Bounds): RoadEdge[] {
+    return this.highwayLayer.query(view);
+  }
+
+  streets(view: Bounds): RoadEdge[] {
+    return this.streetLayer.query(view);
+  }
+
+  junctions(view: Bounds): UnifiedIntersection[] {
+    return this.junctionLayer.query(view);
+  }
+
+  segments(view: Bounds): Segment[] {
+    return this.segmentLayer.query(view);
+  }
+
+  blocks(view: Bounds): CityBlock[] {
+    return this.blockLayer.query(view);
+  }
+
+  parcels(view: Bounds): Parcel[] {
+    return this.parcelLayer.query(view);
+  }
+
+  buildings(view: Bounds): Building[] {
+    return this.buildingLayer.query(view);
+  }
+
+  // Topmost item drawn at a ground point, given what the detail level
+  // shows. `tolerance` widens roads so thin ones can still be picked;
+  // `leanBy` is the ground shift of a point one unit up when buildings
+  // stand up in the 2.5D view, so their roofs are what gets picked.
+  hitTest(point: Point, level: DetailLevel, tolerance: number, leanBy: Point | null): HitTarget | null {
+    const near = segmentBounds(point, point, tolerance);
+
+    if (level === 'buildings') {
+      const building = leanBy ? this.roofAt(point, leanBy) : this.buildingLayer.query(near).find(b => buildingContains(b, point));
+      if (building) return { kind: 'building', item: building };
+    }
+
+    const junction = this.junctionLayer.query(near)
+      .find(j => (level !== 'overview' || j.isHighway) && pointInPolygon(point, j.polygon));
+    if (junction) return { kind: 'junction', item: junction };
+
+    let closest: Segment | null = null;
+    let closestGap = Infinity;
+    this.segmentLayer.query(near).forEach(segment => {
+      if (level === 'overview' && !segment.highway) return;
+      const gap = distanceFromPointToLineSegment(point, segment.start, segment.end) - segment.width / 2;
+      if (gap <= tolerance && gap < closestGap) {
+        closest = segment;
+        closestGap = gap;
+      }
+    });
+    if (closest) return { kind: 'segment', item: closest };
+
+    const block = this.blockLayer.query(near).find(b => pointInPolygon(point, b.points));
+    return block ? { kind: 'block', item: block } : null;
+  }
+
+  // Nearest building whose podium or tower roof shows at a ground point
+  private roofAt(point: Point, leanBy: Point): Building | null {
+    const lowest = { x: point.x - leanBy.x * this.tallest, y: point.y - leanBy.y * this.tallest };
+    const shows = (outline: Point[], height: number) =>
+      pointInPolygon({ x: point.x - leanBy.x * height, y: point.y - leanBy.y * height }, outline);
+    let nearest: Building | null = null;
+    let nearestDepth = Infinity;
+    this.buildingLayer.query(segmentBounds(point, lowest)).forEach(building => {
+      const hit = (building.tower && shows(building.tower.footprint, building.tower.height)) ||
+        (shows(building.footprint, building.height) && !(building.courtyard && shows(building.courtyard, building.height)));
+      if (!hit) return;
+      // Up the screen is farther away
+      const depth = building.footprint[0].x * leanBy.x + building.footprint[0].y * leanBy.y;
+      if (depth < nearestDepth) {
+        nearest = building;
+        nearestDepth = depth;
+      }
+    });
+    return nearest;
+  }
+}
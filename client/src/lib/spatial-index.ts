@@ -0,0 +1,115 @@
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Cell coordinates are packed into a single number; exact for |cell| < 2^15
+const CELL_OFFSET = 32768;
+function cellKey(cx: number, cy: number): number {
+  return (cx + CELL_OFFSET) * 65536 + (cy + CELL_OFFSET);
+}
+
+// Uniform grid over axis-aligned bounds. Items spanning several cells are
+// stored in each of them; queries return every item whose cells overlap.
+export class SpatialGrid<T> {
+  private cells = new Map<number, T[]>();
+  private itemCells = new Map<T, number[]>();
+
+  constructor(private cellSize: number) {}
+
+  get size(): number {
+    return this.itemCells.size;
+  }
+
+  insert(item: T, bounds: Bounds) {
+    const keys: number[] = [];
+    this.forEachCell(bounds, key => {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = [];
+        this.cells.set(key, cell);
+      }
+      cell.push(item);
+      keys.push(key);
+    });
+    this.itemCells.set(item, keys);
+  }
+
+  remove(item: T) {
+    const keys = this.itemCells.get(item);
+    if (!keys) return;
+    for (const key of keys) {
+      const cell = this.cells.get(key)!;
+      const index = cell.indexOf(item);
+      if (index >= 0) cell.splice(index, 1);
+      if (cell.length === 0) this.cells.delete(key);
+    }
+    this.itemCells.delete(item);
+  }
+
+  update(item: T, bounds: Bounds) {
+    this.remove(item);
+    this.insert(item, bounds);
+  }
+
+  query(bounds: Bounds): T[] {
+    const seen = new Set<T>();
+    const result: T[] = [];
+    this.forEachCell(bounds, key => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      for (const item of cell) {
+        if (seen.has(item)) continue;
+        seen.add(item);
+        result.push(item);
+      }
+    });
+    return result;
+  }
+
+  private forEachCell(bounds: Bounds, fn: (key: number) => void) {
+    const minCX = Math.floor(bounds.minX / this.cellSize);
+    const maxCX = Math.floor(bounds.maxX / this.cellSize);
+    const minCY = Math.floor(bounds.minY / this.cellSize);
+    const maxCY = Math.floor(bounds.maxY / this.cellSize);
+    for (let cx = minCX; cx <= maxCX; cx++) {
+      for (let cy = minCY; cy <= maxCY; cy++) {
+        fn(cellKey(cx, cy));
+      }
+    }
+  }
+}
+
+export function segmentBounds(start: { x: number; y: number }, end: { x: number; y: number }, margin = 0): Bounds {
+  return {
+    minX: Math.min(start.x, end.x) - margin,
+    minY: Math.min(start.y, end.y) - margin,
+    maxX: Math.max(start.x, end.x) + margin,
+    maxY: Math.max(start.y, end.y) + margin
+  };
+}
+
+export function polygonBounds(points: Array<{ x: number; y: number }>, margin = 0): Bounds {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  return { minX: minX - margin, minY: minY - margin, maxX: maxX + margin, maxY: maxY + margin };
+}
+
+export function boundsIntersect(a: Bounds, b: Bounds): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
+
+export function boundsContain(outer: Bounds, inner: Bounds): boolean {
+  return outer.minX <= inner.minX && outer.maxX >= inner.maxX && outer.minY <= inner.minY && outer.maxY >= inner.maxY;
+}
+
+export function expandBounds(bounds: Bounds, margin: number): Bounds {
+  return { minX: bounds.minX - margin, minY: bounds.minY - margin, maxX: bounds.maxX + margin, maxY: bounds.maxY + margin };
+}
@@ -0,0 +1,201 @@
+import { GenerationConfig, Point, Terrain } from "@/types/road-network";
+import { createSimplexNoise, Noise2D } from "@/lib/noise";
+import { ImagePopulationField, PopulationImage, WorldBounds } from "@/lib/population";
+import { Random } from "@/lib/random";
+
+// Keeps the area around the origin dry and flat enough for the first highway
+const ORIGIN_CLEARANCE = 800;
+
+export interface TerrainParams {
+  // Elevation of the highest point, in world units
+  height: number;
+  // Fraction of the height range below which land is sea
+  seaLevel: number;
+  // Width of the noise band carved out as rivers, 0 disables rivers
+  riverWidth: number;
+  // Fraction of the map covered by lakes, 0 disables lakes
+  lakeDensity: number;
+}
+
+function fbm(noise: Noise2D, x: number, y: number, octaves: number): number {
+  let value = 0, amplitude = 1, frequency = 1, total = 0;
+  for (let i = 0; i < octaves; i++) {
+    value += noise(x * frequency, y * frequency) * amplitude;
+    total += amplitude;
+    amplitude *= 0.5;
+    frequency *= 2;
+  }
+  return value / total;
+}
+
+// Seeded height map with coastline, winding rivers and lakes
+export class ProceduralTerrain implements Terrain {
+  private elevation: Noise2D;
+  private rivers: Noise2D;
+  private lakes: Noise2D;
+  // Level of the flattened ground around the origin
+  private plateau: number;
+
+  constructor(seed: number, private params: TerrainParams) {
+    const random = new Random(seed).fork('terrain');
+    this.elevation = createSimplexNoise(random.fork('elevation'));
+    this.rivers = createSimplexNoise(random.fork('rivers'));
+    this.lakes = createSimplexNoise(random.fork('lakes'));
+    // The origin's own height, lifted above sea level if need be but never
+    // past the top of the normalized range
+    const lift = Math.min(0.1, (1 - params.seaLevel) / 2);
+    this.plateau = Math.max(this.noiseLevel(0, 0), params.seaLevel + lift);
+  }
+
+  // 1 at the origin easing to 0 at ORIGIN_CLEARANCE, flat at both ends
+  private clearance(x: number, y: number): number {
+    const t = Math.max(0, 1 - Math.hypot(x, y) / ORIGIN_CLEARANCE);
+    return t * t * (3 - 2 * t);
+  }
+
+  private noiseLevel(x: number, y: number): number {
+    return fbm(this.elevation, x * 0.00012, y * 0.00012, 5) * 0.5 + 0.5;
+  }
+
+  // Normalized elevation in [0, 1], blending into the plateau near the origin
+  private level(x: number, y: number): number {
+    const value = this.noiseLevel(x, y);
+    return value + (this.plateau - value) * this.clearance(x, y);
+  }
+
+  heightAt(x: number, y: number): number {
+    return this.level(x, y) * this.params.height;
+  }
+
+  isWater(x: number, y: number): boolean {
+    const level = this.level(x, y);
+    if (level < this.params.seaLevel) return true;
+    if (this.clearance(x, y) > 0) return false;
+
+    if (this.params.riverWidth > 0) {
+      // Zero crossings of low-frequency noise form long connected channels
+      const river = Math.abs(fbm(this.rivers, x * 0.0002, y * 0.0002, 2));
+      if (river < this.params.riverWidth) return true;
+    }
+    if (this.params.lakeDensity > 0) {
+      const lake = this.lakes(x * 0.0004, y * 0.0004) * 0.5 + 0.5;
+      if (lake > 1 - this.params.lakeDensity * 0.5) return true;
+    }
+    return false;
+  }
+}
+
+// Imported grayscale height map; anything below sea level is water
+export class ImageTerrain implements Terrain {
+  private field: ImagePopulationField;
+
+  constructor(image: PopulationImage, bounds: WorldBounds, private params: Pick<TerrainParams, 'height' | 'seaLevel'>) {
+    this.field = new ImagePopulationField(image, bounds);
+  }
+
+  heightAt(x: number, y: number): number {
+    return this.field.sample(x, y) * this.params.height;
+  }
+
+  isWater(x: number, y: number): boolean {
+    return this.field.sample(x, y) < this.params.seaLevel;
+  }
+}
+
+// Plain-data description of the terrain source, see PopulationSpec
+export type TerrainSpec =
+  | { kind: 'procedural' }
+  | { kind: 'image'; image: PopulationImage; bounds: WorldBounds };
+
+export function createConfigTerrain(seed: number, config: GenerationConfig): Terrain | null {
+  if (!config.TERRAIN_ENABLED) return null;
+  return new ProceduralTerrain(seed, {
+    height: config.TERRAIN_HEIGHT,
+    seaLevel: config.TERRAIN_SEA_LEVEL,
+    riverWidth: config.TERRAIN_RIVER_WIDTH,
+    lakeDensity: config.TERRAIN_LAKE_DENSITY
+  });
+}
+
+export interface TerrainProfile {
+  // Steepest rise over run between consecutive samples
+  maxSlope: number;
+  // Longest contiguous stretch over water, in world units
+  longestWater: number;
+  startsInWater: boolean;
+  endsInWater: boolean;
+}
+
+// Samples terrain along a straight road
+export function profileSegment(terrain: Terrain, start: Point, end: Point, step = 20): TerrainProfile {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const samples = Math.max(1, Math.ceil(length / step));
+  const spacing = length / samples;
+
+  let maxSlope = 0;
+  let longestWater = 0;
+  let waterRun = 0;
+  let previousHeight = terrain.heightAt(start.x, start.y);
+  const startsInWater = terrain.isWater(start.x, start.y);
+  let endsInWater = startsInWater;
+
+  for (let i = 1; i <= samples; i++) {
+    const t = i / samples;
+    const x = start.x + (end.x - start.x) * t;
+    const y = start.y + (end.y - start.y) * t;
+    const height = terrain.heightAt(x, y);
+    const water = terrain.isWater(x, y);
+
+    // Bridges are level, so only slopes over land count
+    if (!water && spacing > 0) {
+      maxSlope = Math.max(maxSlope, Math.abs(height - previousHeight) / spacing);
+    }
+    previousHeight = height;
+
+    waterRun = water ? waterRun + spacing : 0;
+    longestWater = Math.max(longestWater, waterRun);
+    endsInWater = water;
+  }
+
+  return { maxSlope, longestWater, startsInWater, endsInWater };
+}
+
+const WATER_COLOR = [38, 84, 124];
+const LOW_LAND_COLOR = [62, 84, 52];
+const HIGH_LAND_COLOR = [122, 110, 88];
+
+// Rasterizes water and hill-shaded relief over `bounds`, one pixel per
+// `cellSize` world units. Drawn scaled under the roads.
+export function renderRelief(terrain: Terrain, bounds: WorldBounds, cellSize: number, maxHeight: number): PopulationImage {
+  const width = Math.max(1, Math.ceil(bounds.width / cellSize));
+  const height = Math.max(1, Math.ceil(bounds.height / cellSize));
+  const data = new Uint8ClampedArray(width * height * 4);
+  const scale = maxHeight > 0 ? maxHeight : 1;
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const x = bounds.x + (px + 0.5) * cellSize;
+      const y = bounds.y + (py + 0.5) * cellSize;
+      const offset = (py * width + px) * 4;
+
+      let color: number[];
+      if (terrain.isWater(x, y)) {
+        color = WATER_COLOR;
+      } else {
+        const level = Math.min(1, Math.max(0, terrain.heightAt(x, y) / scale));
+        // Light from the north-west
+        const dx = terrain.heightAt(x + cellSize, y) - terrain.heightAt(x - cellSize, y);
+        const dy = terrain.heightAt(x, y + cellSize) - terrain.heightAt(x, y - cellSize);
+        const shade = Math.min(1.4, Math.max(0.6, 1 - (dx + dy) / (2 * cellSize)));
+        color = LOW_LAND_COLOR.map((low, i) => (low + (HIGH_LAND_COLOR[i] - low) * level) * shade);
+      }
+
+      data[offset] = color[0];
+      data[offset + 1] = color[1];
+      data[offset + 2] = color[2];
+      data[offset + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { RoadEdge, RoadSegmentInput } from "@/types/road-network";
+import { segmentIntersection } from "@/lib/geometry";
+import { buildUnifiedRoadNetwork } from "@/lib/unified-road-network";
+
+function road(id: number, x1: number, y1: number, x2: number, y2: number, width = 8): RoadSegmentInput {
+  return { id, start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, width, highway: false, bridge: false };
+}
+
+// Node pairs of each edge, in id order
+function spans(edges: RoadEdge[]): string[] {
+  return edges.map(edge => `${Math.min(edge.from, edge.to)}-${Math.max(edge.from, edge.to)}`);
+}
+
+describe('buildUnifiedRoadNetwork', () => {
+  it('splits crossing roads at a shared node', () => {
+    const network = buildUnifiedRoadNetwork([road(0, 0, 0, 200, 0), road(1, 100, -100, 100, 100)], 10);
+    expect(network.edges).toHaveLength(4);
+    expect(network.nodes.filter(node => node.edges.length === 4)).toHaveLength(1);
+  });
+
+  it.each([
+    ['partly overlapping', [road(0, 0, 0, 100, 0), road(1, 60, 0, 300, 0)], 3],
+    ['contained', [road(0, 0, 0, 300, 0), road(1, 100, 0, 200, 0)], 3],
+    ['reversed', [road(0, 0, 0, 300, 0), road(1, 250, 0, 100, 0)], 3],
+    ['diagonal', [road(0, 0, 0, 310, 170), road(1, 31, 17, 620, 340)], 3],
+    ['offset within the road width', [road(0, 0, 0, 300, 0), road(1, 100, 3, 400, 3)], 3]
+  ])('merges %s collinear roads into one edge per stretch', (_, roads, edgeCount) => {
+    for (const snapDistance of [0, 10]) {
+      const { edges } = buildUnifiedRoadNetwork(roads, snapDistance);
+      expect(edges).toHaveLength(edgeCount);
+      expect(new Set(spans(edges)).size).toBe(edgeCount);
+    }
+  });
+
+  it('keeps parallel roads further apart than their width separate', () => {
+    const { edges } = buildUnifiedRoadNetwork([road(0, 0, 0, 300, 0), road(1, 100, 20, 400, 20)], 10);
+    expect(edges).toHaveLength(2);
+  });
+
+  it('merges endpoints within the snap distance', () => {
+    const roads = [road(0, 0, 0, 100, 0), road(1, 104, 3, 104, 200)];
+    expect(buildUnifiedRoadNetwork(roads, 10).nodes).toHaveLength(3);
+    expect(buildUnifiedRoadNetwork(roads, 2).nodes).toHaveLength(4);
+  });
+
+  it('does not chain snaps beyond the snap distance', () => {
+    // Parallel roads 8 apart: pairwise chaining would fold each row of ends into one node
+    const roads = [0, 8, 16, 24].map((x, i) => road(i, x, 0, x, -200, 2));
+    const { nodes } = buildUnifiedRoadNetwork(roads, 10);
+    expect(nodes).toHaveLength(4);
+    roads.forEach(({ start, end }) => [start, end].forEach(point => {
+      const nearest = Math.min(...nodes.map(node => Math.hypot(node.point.x - point.x, node.point.y - point.y)));
+      expect(nearest).toBeLessThanOrEqual(10);
+    }));
+  });
+
+  it('splits roads crossed by endpoints after they move', () => {
+    // Road 1 starts short of road 2; moved onto it, it runs over the end of road 0
+    const roads = [road(0, 120, 200, 220, 140, 2), road(1, 210, 120, 320, 260, 2), road(2, 200, 30, 160, 300, 2)];
+    const { nodes, edges } = buildUnifiedRoadNetwork(roads, 30);
+    const ends = (edge: RoadEdge) => [nodes[edge.from].point, nodes[edge.to].point];
+    edges.forEach((a, i) => edges.slice(i + 1).forEach(b => {
+      if ([a.from, a.to].some(id => id === b.from || id === b.to)) return;
+      const [a1, a2] = ends(a);
+      const [b1, b2] = ends(b);
+      expect(segmentIntersection(a1, a2, b1, b2, true)).toBeNull();
+    }));
+  });
+});
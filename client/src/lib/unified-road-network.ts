@@ -0,0 +1,201 @@
+import { Point, RoadEdge, RoadNode, RoadSegmentInput, UnifiedRoadNetwork } from "@/types/road-network";
+import { closestPointOnSegment, segmentIntersection } from "@/lib/geometry";
+import { buildJunctions } from "@/lib/junctions";
+import { segmentBounds, SpatialGrid } from "@/lib/spatial-index";
+
+// Rounds of re-projecting moved endpoints onto roads whose own ends moved
+const ATTACH_PASSES = 3;
+
+interface SplitPoint {
+  // Parametric position along the segment
+  t: number;
+  vertex: number;
+}
+
+// Ends of `b` lie within the width of `a` along its line, so where they
+// overlap the two roads draw as one
+function isCollinear(a: RoadSegmentInput, b: RoadSegmentInput): boolean {
+  const dx = a.end.x - a.start.x;
+  const dy = a.end.y - a.start.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return false;
+  const tolerance = Math.max(a.width, b.width) / 2;
+  const offset = (p: Point) => Math.abs((p.x - a.start.x) * dy - (p.y - a.start.y) * dx) / length;
+  return offset(b.start) <= tolerance && offset(b.end) <= tolerance;
+}
+
+// Planarizes generated segments into a node/edge graph: every crossing
+// becomes a node, nearby endpoints merge, and no two edges overlap. Node and
+// edge ids follow segment order, so the same input always yields the same ids.
+// Edges come back trimmed to their junction polygons.
+export function buildUnifiedRoadNetwork(segments: RoadSegmentInput[], snapDistance: number): UnifiedRoadNetwork {
+  const vertices: Point[] = [];
+  const splits: SplitPoint[][] = segments.map(() => []);
+
+  const addVertex = (point: Point) => {
+    vertices.push({ x: point.x, y: point.y });
+    return vertices.length - 1;
+  };
+
+  // Endpoints first, so they win over computed split points as cluster centres
+  segments.forEach((segment, i) => {
+    splits[i].push({ t: 0, vertex: addVertex(segment.start) }, { t: 1, vertex: addVertex(segment.end) });
+  });
+
+  const maxLength = segments.reduce((max, s) => Math.max(max, Math.hypot(s.end.x - s.start.x, s.end.y - s.start.y)), 1);
+  const segmentGrid = new SpatialGrid<number>(Math.max(maxLength, snapDistance));
+  segments.forEach((segment, i) => segmentGrid.insert(i, segmentBounds(segment.start, segment.end, snapDistance)));
+
+  const isInterior = (segment: RoadSegmentInput, t: number) => {
+    const length = Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y);
+    return t * length > snapDistance && (1 - t) * length > snapDistance;
+  };
+
+  // Endpoints that stop just short of the middle of another road move onto
+  // it, so the through road stays straight. This happens before crossings
+  // are found, so a moved endpoint that now crosses a third road splits it.
+  const attachedTo = new Map<number, number>();
+  segments.forEach((segment, i) => {
+    const candidates = segmentGrid.query(segmentBounds(segment.start, segment.end, snapDistance)).sort((x, y) => x - y);
+    splits[i].slice(0, 2).forEach(({ vertex }) => {
+      let best: { distance: number; target: number } | null = null;
+      for (const j of candidates) {
+        if (j === i) continue;
+        const b = segments[j];
+        const closest = closestPointOnSegment(vertices[vertex], b.start, b.end);
+        if (closest.distance <= snapDistance && isInterior(b, closest.t) && (!best || closest.distance < best.distance)) {
+          best = { distance: closest.distance, target: j };
+        }
+      }
+      if (best) attachedTo.set(vertex, best.target);
+    });
+  });
+
+  // A target road may itself have a moved end, so settle the moves against
+  // the roads as they end up rather than as generated
+  const endsOf = (i: number): [Point, Point] => [vertices[splits[i][0].vertex], vertices[splits[i][1].vertex]];
+  for (let pass = 0; pass < ATTACH_PASSES; pass++) {
+    attachedTo.forEach((target, vertex) => {
+      vertices[vertex] = closestPointOnSegment(vertices[vertex], ...endsOf(target)).point;
+    });
+  }
+
+  // Roads as they run after the endpoint moves
+  const roads = segments.map((segment, i) => {
+    const [start, end] = endsOf(i);
+    return { ...segment, start, end };
+  });
+
+  attachedTo.forEach((target, vertex) => {
+    const road = roads[target];
+    splits[target].push({ t: closestPointOnSegment(vertices[vertex], road.start, road.end).t, vertex });
+  });
+
+  for (let i = 0; i < roads.length; i++) {
+    const a = roads[i];
+    const candidates = segmentGrid.query(segmentBounds(a.start, a.end, snapDistance)).sort((x, y) => x - y);
+
+    for (const j of candidates) {
+      // Each pair once
+      if (j <= i) continue;
+      const b = roads[j];
+
+      // Collinear overlaps: each road splits where the other ends, so the
+      // shared stretch becomes one edge below
+      if (isCollinear(a, b)) {
+        [[i, j], [j, i]].forEach(([target, source]) => {
+          const road = roads[target];
+          splits[source].slice(0, 2).forEach(({ vertex }) => {
+            const closest = closestPointOnSegment(vertices[vertex], road.start, road.end);
+            if (closest.t > 0 && closest.t < 1) splits[target].push({ t: closest.t, vertex });
+          });
+        });
+      }
+
+      // Proper crossings
+      const crossing = segmentIntersection(a.start, a.end, b.start, b.end, true);
+      if (crossing) {
+        const vertex = addVertex(crossing);
+        splits[i].push({ t: crossing.t, vertex });
+        splits[j].push({ t: crossing.u, vertex });
+      }
+    }
+  }
+
+  // Cluster vertices within the snap distance of a cluster centre. Vertices
+  // join in index order, each to the nearest centre in range, and a centre is
+  // the position of its cluster's first vertex, so no member ends up further
+  // than the snap distance from its node and chains of snaps can't drift.
+  const clusterOf: number[] = [];
+  const centreGrid = new SpatialGrid<number>(Math.max(snapDistance, 1));
+  vertices.forEach((point, v) => {
+    let nearest = v;
+    let nearestDistance = Infinity;
+    centreGrid.query(segmentBounds(point, point, snapDistance)).forEach(centre => {
+      const distance = Math.hypot(vertices[centre].x - point.x, vertices[centre].y - point.y);
+      if (distance <= snapDistance && (distance < nearestDistance || (distance === nearestDistance && centre < nearest))) {
+        nearest = centre;
+        nearestDistance = distance;
+      }
+    });
+    clusterOf.push(nearest);
+    if (nearest === v) centreGrid.insert(v, segmentBounds(point, point));
+  });
+
+  // Emit edges along each segment in order, assigning node ids on first use
+  const nodes: RoadNode[] = [];
+  const edges: RoadEdge[] = [];
+  const nodeIds = new Map<number, number>();
+  const edgeIds = new Map<string, number>();
+
+  const nodeFor = (vertex: number): RoadNode => {
+    const root = clusterOf[vertex];
+    let id = nodeIds.get(root);
+    if (id === undefined) {
+      id = nodes.length;
+      nodeIds.set(root, id);
+      nodes.push({ id, point: vertices[root], edges: [] });
+    }
+    return nodes[id];
+  };
+
+  segments.forEach((segment, i) => {
+    const points = splits[i].sort((x, y) => x.t - y.t);
+
+    for (let k = 1; k < points.length; k++) {
+      // Zero-length after snapping
+      if (clusterOf[points[k - 1].vertex] === clusterOf[points[k].vertex]) continue;
+      const from = nodeFor(points[k - 1].vertex);
+      const to = nodeFor(points[k].vertex);
+
+      // Overlapping roads keep one edge with the larger road's profile
+      const key = from.id < to.id ? `${from.id},${to.id}` : `${to.id},${from.id}`;
+      const existing = edgeIds.get(key);
+      if (existing !== undefined) {
+        const edge = edges[existing];
+        edge.width = Math.max(edge.width, segment.width);
+        edge.highway = edge.highway || segment.highway;
+        edge.bridge = edge.bridge || segment.bridge;
+        continue;
+      }
+
+      const edge: RoadEdge = {
+        id: edges.length,
+        from: from.id,
+        to: to.id,
+        start: from.point,
+        end: to.point,
+        width: segment.width,
+        highway: segment.highway,
+        bridge: segment.bridge,
+        segmentId: segment.id
+      };
+      edgeIds.set(key, edge.id);
+      edges.push(edge);
+      from.edges.push(edge.id);
+      to.edges.push(edge.id);
+    }
+  });
+
+  return { nodes, edges, intersections: buildJunctions(nodes, edges) };
+}
@@ -0,0 +1,59 @@
+import { Point } from "@/types/road-network";
+import { Camera } from "@/types/city";
+import { Bounds } from "@/lib/spatial-index";
+
+// The view is orthographic: the camera turns by its bearing and tilts by its
+// pitch, which foreshortens the ground and leans heights up the screen.
+// Screen positions are canvas pixels from the top-left corner.
+
+// Rotation in world axes, clockwise on screen since y points down
+export function rotate(p: Point, angle: number): Point {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos };
+}
+
+// Ground offset from the camera centre to what appears `offset` pixels from
+// the middle of the viewport
+export function screenOffsetToWorld(camera: Camera, offset: Point): Point {
+  return rotate({ x: offset.x / camera.zoom, y: offset.y / (camera.zoom * Math.cos(camera.pitch)) }, camera.bearing);
+}
+
+// Ground point under a screen position
+export function screenToWorld(camera: Camera, screen: Point, width: number, height: number): Point {
+  const offset = screenOffsetToWorld(camera, { x: screen.x - width / 2, y: screen.y - height / 2 });
+  return { x: camera.x + offset.x, y: camera.y + offset.y };
+}
+
+// Screen position of a world point `z` units above the ground
+export function worldToScreen(camera: Camera, world: Point, width: number, height: number, z = 0): Point {
+  const r = rotate({ x: world.x - camera.x, y: world.y - camera.y }, -camera.bearing);
+  return {
+    x: width / 2 + r.x * camera.zoom,
+    y: height / 2 + (r.y * Math.cos(camera.pitch) - z * Math.sin(camera.pitch)) * camera.zoom
+  };
+}
+
+// Ground direction pointing up the screen, away from the viewer
+export function screenUp(camera: Camera): Point {
+  return rotate({ x: 0, y: -1 }, camera.bearing);
+}
+
+// Ground shift that draws a point one unit up where it appears on screen
+export function liftVector(camera: Camera): Point {
+  const up = screenUp(camera);
+  const lean = Math.tan(camera.pitch);
+  return { x: up.x * lean, y: up.y * lean };
+}
+
+// Ground rectangle covering everything visible through the camera
+export function visibleBounds(camera: Camera, width: number, height: number): Bounds {
+  const corners = [[0, 0], [width, 0], [width, height], [0, height]]
+    .map(([x, y]) => screenToWorld(camera, { x, y }, width, height));
+  return {
+    minX: Math.min(...corners.map(p => p.x)),
+    minY: Math.min(...corners.map(p => p.y)),
+    maxX: Math.max(...corners.map(p => p.x)),
+    maxY: Math.max(...corners.map(p => p.y))
+  };
+}
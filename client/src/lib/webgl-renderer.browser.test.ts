@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { Building, Point } from "@/types/road-network";
+import { Camera } from "@/types/city";
+import { RenderOptions } from "@/lib/renderer";
+import { buildUnifiedRoadNetwork } from "@/lib/unified-road-network";
+import { WebGL2Renderer } from "@/lib/webgl-renderer";
+
+// Runs under `npm run test:browser`; the Node test run has no WebGL2 and
+// checks the instance layout in webgl-renderer.test.ts instead
+const gl = typeof document === 'undefined'
+  ? null
+  : document.createElement('canvas').getContext('webgl2', { antialias: false });
+
+const SIZE = 128;
+
+function building(id: number, footprint: Point[], color: string, tower: Point[] | null = null): Building {
+  return {
+    id,
+    parcelId: id,
+    shape: tower ? 'tower' : footprint.length === 4 ? 'box' : 'l-shape',
+    landUse: 'commercial',
+    footprint,
+    height: 10,
+    courtyard: null,
+    tower: tower && { footprint: tower, height: 40 },
+    orientation: 0,
+    color
+  };
+}
+
+function rect(minX: number, minY: number, maxX: number, maxY: number): Point[] {
+  return [{ x: minX, y: minY }, { x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }];
+}
+
+const CAMERA: Camera = { x: 0, y: 0, zoom: 1, bearing: 0, pitch: 0 };
+
+const OPTIONS: RenderOptions = {
+  viewMode: 'plan',
+  showDebug: false,
+  showHeatmap: false,
+  showCityBlocks: false,
+  centers: [],
+  strokes: [],
+  highlights: []
+};
+
+describe.skipIf(!gl)('WebGL2Renderer', () => {
+  // One unit per pixel with the camera on the origin
+  function render() {
+    const renderer = new WebGL2Renderer(gl!);
+    renderer.resize(SIZE, SIZE);
+    renderer.setScene({
+      segments: [],
+      network: buildUnifiedRoadNetwork([
+        { id: 0, start: { x: -100, y: 0 }, end: { x: 100, y: 0 }, width: 10, highway: true, bridge: false }
+      ], 10),
+      blocks: [],
+      parcels: [],
+      buildings: [
+        building(0, rect(-40, 20, -10, 50), '#00ff00', rect(-30, 30, -20, 40)),
+        building(1, [{ x: 10, y: 20 }, { x: 40, y: 20 }, { x: 40, y: 30 }, { x: 20, y: 30 }, { x: 20, y: 50 }, { x: 10, y: 50 }], '#0000ff')
+      ],
+      relief: null,
+      heatmap: null
+    });
+    renderer.render(CAMERA, OPTIONS);
+    const pixels = renderer.snapshot();
+    renderer.dispose();
+
+    // Rows come back bottom first; screen y grows down like world y
+    return (x: number, y: number) => {
+      const offset = ((SIZE - 1 - (SIZE / 2 + y)) * SIZE + SIZE / 2 + x) * 4;
+      return Array.from(pixels.slice(offset, offset + 4));
+    };
+  }
+
+  it('draws roads and instanced and triangulated footprints', () => {
+    const pixel = render();
+    expect(pixel(-60, -60)).toEqual([0x1a, 0x1a, 0x1a, 255]);
+    expect(pixel(0, 0)).toEqual([0xff, 0x6b, 0x6b, 255]);
+    expect(pixel(-35, 25)).toEqual([0, 255, 0, 255]);
+    expect(pixel(15, 40)).toEqual([0, 0, 255, 255]);
+    expect(pixel(30, 40)).toEqual([0x1a, 0x1a, 0x1a, 255]);
+  });
+
+  it('keeps towers over their instanced base', () => {
+    const pixel = render();
+    expect(pixel(-25, 35)).not.toEqual(pixel(-35, 25));
+  });
+});
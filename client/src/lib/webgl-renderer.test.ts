@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { Point } from "@/types/road-network";
+import { QuadBatch } from "@/lib/webgl-renderer";
+
+interface Upload {
+  data: Uint8Array;
+  length: number;
+}
+
+// Just enough of a WebGL2 context to record what a mesh uploads and how its
+// attributes read it
+function recordingContext() {
+  const uploads: Upload[] = [];
+  const attributes = new Map<number, { size: number; type: number; normalized: boolean; stride: number; offset: number; divisor: number }>();
+  const gl = {
+    ARRAY_BUFFER: 1,
+    STATIC_DRAW: 2,
+    FLOAT: 3,
+    UNSIGNED_BYTE: 4,
+    TRIANGLES: 5,
+    createVertexArray: () => ({}),
+    bindVertexArray: () => {},
+    createBuffer: () => ({}),
+    bindBuffer: () => {},
+    bufferData: (_target: number, data: Uint8Array, _usage: number, offset: number, length: number) => {
+      uploads.push({ data: data.slice(offset, offset + length), length });
+    },
+    enableVertexAttribArray: () => {},
+    vertexAttribPointer: (index: number, size: number, type: number, normalized: boolean, stride: number, offset: number) => {
+      attributes.set(index, { size, type, normalized, stride, offset, divisor: 0 });
+    },
+    vertexAttribDivisor: (index: number, divisor: number) => {
+      attributes.get(index)!.divisor = divisor;
+    }
+  };
+  return { gl: gl as unknown as WebGL2RenderingContext, uploads, attributes };
+}
+
+function rect(x: number, y: number, size: number): Point[] {
+  return [{ x, y }, { x: x + size, y }, { x: x + size, y: y + size }, { x, y: y + size }];
+}
+
+describe('QuadBatch', () => {
+  it('lays out one instance per quad as the quad shader reads it', () => {
+    const { gl, uploads, attributes } = recordingContext();
+    const batch = new QuadBatch();
+    batch.quad(rect(0, 0, 10), [255, 0, 0, 255]);
+    batch.quad(rect(20, 5, 4), [0, 128, 255, 200]);
+    const mesh = batch.build(gl)!;
+
+    expect(mesh).toMatchObject({ count: 6, mode: gl.TRIANGLES, instances: 2 });
+    expect(mesh.bounds).toEqual({ minX: 0, minY: 0, maxX: 24, maxY: 10 });
+
+    // Corners 0-1, corners 2-3, then the colour, each stepping per instance
+    expect(attributes.get(0)).toEqual({ size: 4, type: gl.FLOAT, normalized: false, stride: 36, offset: 0, divisor: 1 });
+    expect(attributes.get(1)).toEqual({ size: 4, type: gl.FLOAT, normalized: false, stride: 36, offset: 16, divisor: 1 });
+    expect(attributes.get(2)).toEqual({ size: 4, type: gl.UNSIGNED_BYTE, normalized: true, stride: 36, offset: 32, divisor: 1 });
+
+    expect(uploads).toHaveLength(1);
+    const { data, length } = uploads[0];
+    expect(length).toBe(2 * 36);
+    const floats = new Float32Array(data.buffer, data.byteOffset, 8);
+    expect(Array.from(floats)).toEqual([0, 0, 10, 0, 10, 10, 0, 10]);
+    expect(Array.from(data.slice(32, 36))).toEqual([255, 0, 0, 255]);
+    expect(Array.from(new Float32Array(data.buffer, data.byteOffset + 36, 8))).toEqual([20, 5, 24, 5, 24, 9, 20, 9]);
+    expect(Array.from(data.slice(68, 72))).toEqual([0, 128, 255, 200]);
+  });
+
+  it('keeps earlier instances when the buffer grows', () => {
+    const { gl, uploads } = recordingContext();
+    const batch = new QuadBatch();
+    for (let i = 0; i < 100; i++) batch.quad(rect(i, 0, 1), [i, 0, 0, 255]);
+    expect(batch.build(gl)!.instances).toBe(100);
+
+    const { data, length } = uploads[0];
+    expect(length).toBe(100 * 36);
+    for (let i = 0; i < 100; i++) {
+      expect(new Float32Array(data.buffer, data.byteOffset + i * 36, 1)[0]).toBe(i);
+      expect(data[i * 36 + 32]).toBe(i);
+    }
+  });
+
+  it('builds nothing when empty', () => {
+    expect(new QuadBatch().build(recordingContext().gl)).toBeNull();
+  });
+});
@@ -0,0 +1,961 @@
+import { Point, Segment } from "@/types/road-network";
+import { Camera } from "@/types/city";
+import {
+  buildingVolumes,
+  DARK_WINDOW_COLOR,
+  LIT_WINDOW_COLOR,
+  MIN_WINDOW_PIXELS,
+  Wall,
+  WINDOW_SIZE,
+  WINDOW_SPACING,
+  windowGrid,
+  WINDOW_HASH_GLSL
+} from "@/lib/city-engine";
+import { FLOOR_HEIGHT } from "@/lib/buildings";
+import { isConvex, triangulate } from "@/lib/geometry";
+import {
+  BACKGROUND_COLOR,
+  BLOCK_OUTLINE_COLOR,
+  BRIDGE_CASING,
+  BRIDGE_CASING_COLOR,
+  CENTER_RING_COLOR,
+  DEBUG_NODE_COLOR,
+  DEBUG_NODE_RADIUS,
+  detailLevel,
+  ERASE_COLOR,
+  HIGHWAY_COLOR,
+  junctionMarkings,
+  LABEL_COLOR,
+  LABEL_SIZE,
+  LABEL_STROKE,
+  landUseFill,
+  LOT_LINE_COLOR,
+  MARKING_COLOR,
+  MIN_LABEL_PIXELS,
+  PAINT_COLOR,
+  PARK_COLOR,
+  ROAD_MARKINGS_ZOOM,
+  STOP_LINE_WIDTH,
+  STREET_COLOR,
+  streetLabel,
+  TOWER_TINT
+} from "@/lib/render-style";
+import { RasterLayer, Renderer, RenderOptions, RenderScene } from "@/lib/renderer";
+import { Bounds, boundsIntersect, expandBounds, segmentBounds, SpatialGrid } from "@/lib/spatial-index";
+import { visibleBounds } from "@/lib/view-transform";
+import { dominantLandUse } from "@/lib/zoning";
+
+type RGBA = [number, number, number, number];
+
+// Segments per full circle for overlay rings and debug dots
+const CIRCLE_STEPS = 48;
+// Side of the square tiles static geometry is split into, in world units
+const TILE_SIZE = 1000;
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const sector = ((h % 360) + 360) % 360 / 60;
+  const x = chroma * (1 - Math.abs(sector % 2 - 1));
+  const [r, g, b] = sector < 1 ? [chroma, x, 0] : sector < 2 ? [x, chroma, 0] : sector < 3 ? [0, chroma, x]
+    : sector < 4 ? [0, x, chroma] : sector < 5 ? [x, 0, chroma] : [chroma, 0, x];
+  const m = l - chroma / 2;
+  return [(r + m) * 255, (g + m) * 255, (b + m) * 255];
+}
+
+// The CSS colour forms used across the app: #rrggbb, rgb(a) and hsl(a)
+function parseColor(color: string): RGBA {
+  if (color.startsWith('#')) {
+    const hex = color.slice(1);
+    return [parseInt(hex.slice(0, 2), 16), parseInt(hex.slice(2, 4), 16), parseInt(hex.slice(4, 6), 16), 255];
+  }
+  const values = color.slice(color.indexOf('(') + 1, color.indexOf(')')).split(',').map(v => parseFloat(v));
+  const alpha = values.length > 3 ? values[3] * 255 : 255;
+  if (color.startsWith('hsl')) {
+    const [r, g, b] = hslToRgb(values[0], values[1] / 100, values[2] / 100);
+    return [r, g, b, alpha];
+  }
+  return [values[0], values[1], values[2], alpha];
+}
+
+const colorCache = new Map<string, RGBA>();
+function rgba(color: string): RGBA {
+  let parsed = colorCache.get(color);
+  if (!parsed) {
+    parsed = parseColor(color).map(c => Math.round(Math.min(255, Math.max(0, c)))) as RGBA;
+    colorCache.set(color, parsed);
+  }
+  return parsed;
+}
+
+// Position, colour, wall coordinates for window patterns, a per-face seed
+// and height above the ground
+const FLOATS_PER_VERTEX = 9;
+const STRIDE = FLOATS_PER_VERTEX * 4;
+// Wall coordinates of surfaces without windows
+const NO_WALL: [number, number, number, number] = [-1, -1, 0, 0];
+
+interface Mesh {
+  vao: WebGLVertexArrayObject;
+  buffers: WebGLBuffer[];
+  count: number;
+  mode: GLenum;
+  bounds: Bounds;
+  // Drawn `count` vertices at a time, once per instance, when set
+  instances?: number;
+}
+
+interface MeshSource {
+  build(gl: WebGL2RenderingContext): Mesh | null;
+}
+
+// Accumulates indexed geometry on the CPU, then uploads it in one go.
+// Typed storage keeps a whole city's walls within reach of the heap.
+class MeshBuilder {
+  private data = new ArrayBuffer(64 * STRIDE);
+  private floats = new Float32Array(this.data);
+  private bytes = new Uint8Array(this.data);
+  private vertexCount = 0;
+  private indices = new Uint32Array(128);
+  private indexCount = 0;
+  private bounds: Bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  // Applies to vertices added from here on
+  height = 0;
+
+  constructor(private mode: 'triangles' | 'lines' = 'triangles') {}
+
+  get isEmpty(): boolean {
+    return this.indexCount === 0;
+  }
+
+  vertex(p: Point, color: RGBA, wall = NO_WALL, seed = 0): number {
+    if ((this.vertexCount + 1) * STRIDE > this.data.byteLength) {
+      const data = new ArrayBuffer(this.data.byteLength * 2);
+      new Uint8Array(data).set(this.bytes);
+      this.data = data;
+      this.floats = new Float32Array(data);
+      this.bytes = new Uint8Array(data);
+    }
+    const base = this.vertexCount * FLOATS_PER_VERTEX;
+    this.floats[base] = p.x;
+    this.floats[base + 1] = p.y;
+    // The third slot holds the colour's four bytes
+    const byte = (base + 2) * 4;
+    this.bytes[byte] = color[0];
+    this.bytes[byte + 1] = color[1];
+    this.bytes[byte + 2] = color[2];
+    this.bytes[byte + 3] = color[3];
+    this.floats[base + 3] = wall[0];
+    this.floats[base + 4] = wall[1];
+    this.floats[base + 5] = wall[2];
+    this.floats[base + 6] = wall[3];
+    this.floats[base + 7] = seed;
+    this.floats[base + 8] = this.height;
+
+    this.bounds.minX = Math.min(this.bounds.minX, p.x);
+    this.bounds.minY = Math.min(this.bounds.minY, p.y);
+    this.bounds.maxX = Math.max(this.bounds.maxX, p.x);
+    this.bounds.maxY = Math.max(this.bounds.maxY, p.y);
+    return this.vertexCount++;
+  }
+
+  private reserve(count: number) {
+    if (this.indexCount + count <= this.indices.length) return;
+    const indices = new Uint32Array(Math.max(this.indices.length * 2, this.indexCount + count));
+    indices.set(this.indices);
+    this.indices = indices;
+  }
+
+  private index(...vertices: number[]) {
+    this.reserve(vertices.length);
+    this.indices.set(vertices, this.indexCount);
+    this.indexCount += vertices.length;
+  }
+
+  // Filled simple polygon
+  polygon(points: Point[], color: RGBA) {
+    if (points.length < 3) return;
+    const first = this.vertexCount;
+    points.forEach(p => this.vertex(p, color));
+    const triangles = triangulate(points);
+    this.reserve(triangles.length);
+    triangles.forEach(i => this.indices[this.indexCount++] = first + i);
+  }
+
+  // Band between an outline and a hole with matching vertices, e.g. a
+  // courtyard building's floor plate
+  ring(outer: Point[], inner: Point[], color: RGBA) {
+    const a = outer.map(p => this.vertex(p, color));
+    const b = inner.map(p => this.vertex(p, color));
+    for (let i = 0; i < a.length; i++) {
+      const j = (i + 1) % a.length;
+      this.index(a[i], a[j], b[j], a[i], b[j], b[i]);
+    }
+  }
+
+  quad(corners: Point[], color: RGBA, walls?: Array<[number, number, number, number]>, seed = 0) {
+    const v = corners.map((p, i) => this.vertex(p, color, walls ? walls[i] : NO_WALL, seed));
+    this.index(v[0], v[1], v[2], v[0], v[2], v[3]);
+  }
+
+  // Upright face of a building wall, windowed by the fragment shader:
+  // (along, up) run from the first bay's corner, clipped to the whole grid
+  wall(wall: Wall, color: RGBA, seed: number) {
+    const { bays, floors, offset } = windowGrid(wall);
+    const length = Math.hypot(wall.b.x - wall.a.x, wall.b.y - wall.a.y);
+    const height = wall.top - wall.base;
+    const coords = (along: number, up: number): [number, number, number, number] =>
+      [along, up, bays * WINDOW_SPACING, floors * FLOOR_HEIGHT];
+    const ground = this.height;
+    this.height = wall.base;
+    const v0 = this.vertex(wall.a, color, coords(-offset, 0), seed);
+    const v1 = this.vertex(wall.b, color, coords(length - offset, 0), seed);
+    this.height = wall.top;
+    const v2 = this.vertex(wall.b, color, coords(length - offset, height), seed);
+    const v3 = this.vertex(wall.a, color, coords(-offset, height), seed);
+    this.height = ground;
+    this.index(v0, v1, v2, v0, v2, v3);
+  }
+
+  // Straight band of the given width with butt ends
+  band(from: Point, to: Point, width: number, color: RGBA) {
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    if (length < 1e-9) return;
+    const nx = -(to.y - from.y) / length * width / 2;
+    const ny = (to.x - from.x) / length * width / 2;
+    this.quad([
+      { x: from.x + nx, y: from.y + ny },
+      { x: to.x + nx, y: to.y + ny },
+      { x: to.x - nx, y: to.y - ny },
+      { x: from.x - nx, y: from.y - ny }
+    ], color);
+  }
+
+  disc(center: Point, radius: number, color: RGBA) {
+    const middle = this.vertex(center, color);
+    const rim: number[] = [];
+    for (let i = 0; i < CIRCLE_STEPS; i++) {
+      const angle = i / CIRCLE_STEPS * Math.PI * 2;
+      rim.push(this.vertex({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius }, color));
+    }
+    rim.forEach((v, i) => this.index(middle, v, rim[(i + 1) % rim.length]));
+  }
+
+  // Closed outline, for line meshes
+  outline(points: Point[], color: RGBA) {
+    const v = points.map(p => this.vertex(p, color));
+    v.forEach((index, i) => this.index(index, v[(i + 1) % v.length]));
+  }
+
+  circle(center: Point, radius: number, color: RGBA) {
+    const points: Point[] = [];
+    for (let i = 0; i < CIRCLE_STEPS; i++) {
+      const angle = i / CIRCLE_STEPS * Math.PI * 2;
+      points.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+    }
+    this.outline(points, color);
+  }
+
+  build(gl: WebGL2RenderingContext): Mesh | null {
+    if (this.isEmpty) return null;
+
+    const vao = gl.createVertexArray()!;
+    gl.bindVertexArray(vao);
+    const vertexBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.bytes, gl.STATIC_DRAW, 0, this.vertexCount * STRIDE);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, STRIDE, 0);
+    gl.enableVertexAttribArray(1);
+    gl.vertexAttribPointer(1, 4, gl.UNSIGNED_BYTE, true, STRIDE, 8);
+    gl.enableVertexAttribArray(2);
+    gl.vertexAttribPointer(2, 4, gl.FLOAT, false, STRIDE, 12);
+    gl.enableVertexAttribArray(3);
+    gl.vertexAttribPointer(3, 1, gl.FLOAT, false, STRIDE, 28);
+    gl.enableVertexAttribArray(4);
+    gl.vertexAttribPointer(4, 1, gl.FLOAT, false, STRIDE, 32);
+
+    const indexBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, this.indices, gl.STATIC_DRAW, 0, this.indexCount);
+    gl.bindVertexArray(null);
+
+    return {
+      vao,
+      buffers: [vertexBuffer, indexBuffer],
+      count: this.indexCount,
+      mode: this.mode === 'lines' ? gl.LINES : gl.TRIANGLES,
+      bounds: this.bounds
+    };
+  }
+}
+
+// Two corners per vec4 attribute, then the colour's four bytes
+const QUAD_STRIDE = 9 * 4;
+
+// Convex four-cornered footprints, one instance each: the vertex shader
+// picks the corner for each of the two triangles, so a building costs 36
+// bytes and no indices
+export class QuadBatch {
+  private data = new ArrayBuffer(64 * QUAD_STRIDE);
+  private floats = new Float32Array(this.data);
+  private bytes = new Uint8Array(this.data);
+  private count = 0;
+  private bounds: Bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+
+  quad(corners: Point[], color: RGBA) {
+    if ((this.count + 1) * QUAD_STRIDE > this.data.byteLength) {
+      const data = new ArrayBuffer(this.data.byteLength * 2);
+      new Uint8Array(data).set(this.bytes);
+      this.data = data;
+      this.floats = new Float32Array(data);
+      this.bytes = new Uint8Array(data);
+    }
+    const base = this.count * 9;
+    corners.forEach((p, i) => {
+      this.floats[base + i * 2] = p.x;
+      this.floats[base + i * 2 + 1] = p.y;
+      this.bounds.minX = Math.min(this.bounds.minX, p.x);
+      this.bounds.minY = Math.min(this.bounds.minY, p.y);
+      this.bounds.maxX = Math.max(this.bounds.maxX, p.x);
+      this.bounds.maxY = Math.max(this.bounds.maxY, p.y);
+    });
+    this.bytes.set(color, (base + 8) * 4);
+    this.count++;
+  }
+
+  build(gl: WebGL2RenderingContext): Mesh | null {
+    if (this.count === 0) return null;
+
+    const vao = gl.createVertexArray()!;
+    gl.bindVertexArray(vao);
+    const buffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.bytes, gl.STATIC_DRAW, 0, this.count * QUAD_STRIDE);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 4, gl.FLOAT, false, QUAD_STRIDE, 0);
+    gl.vertexAttribDivisor(0, 1);
+    gl.enableVertexAttribArray(1);
+    gl.vertexAttribPointer(1, 4, gl.FLOAT, false, QUAD_STRIDE, 16);
+    gl.vertexAttribDivisor(1, 1);
+    gl.enableVertexAttribArray(2);
+    gl.vertexAttribPointer(2, 4, gl.UNSIGNED_BYTE, true, QUAD_STRIDE, 32);
+    gl.vertexAttribDivisor(2, 1);
+    gl.bindVertexArray(null);
+
+    return { vao, buffers: [buffer], count: 6, mode: gl.TRIANGLES, bounds: this.bounds, instances: this.count };
+  }
+}
+
+// Geometry split into square tiles by where each item sits, so a frame only
+// draws the tiles in view. An item stays whole in one tile; tile bounds grow
+// to cover it.
+class Tiles<T extends MeshSource> {
+  private tiles = new Map<string, T>();
+
+  constructor(private create: () => T) {}
+
+  at(anchor: Point): T {
+    const key = `${Math.floor(anchor.x / TILE_SIZE)},${Math.floor(anchor.y / TILE_SIZE)}`;
+    let tile = this.tiles.get(key);
+    if (!tile) {
+      tile = this.create();
+      this.tiles.set(key, tile);
+    }
+    return tile;
+  }
+
+  build(gl: WebGL2RenderingContext): Mesh[] {
+    const meshes: Mesh[] = [];
+    this.tiles.forEach(tile => {
+      const mesh = tile.build(gl);
+      if (mesh) meshes.push(mesh);
+    });
+    return meshes;
+  }
+}
+
+class TiledMesh extends Tiles<MeshBuilder> {
+  constructor(mode: 'triangles' | 'lines' = 'triangles') {
+    super(() => new MeshBuilder(mode));
+  }
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+// Turns by the bearing, then tilts by the pitch: the ground foreshortens and
+// heights rise up the screen. Depth is distance from the viewer, scaled by
+// u_depthRange into clip space.
+const VIEW_TRANSFORM = `
+uniform vec2 u_center;
+uniform float u_zoom;
+uniform vec2 u_viewport;
+uniform float u_bearing;
+uniform float u_pitch;
+uniform float u_depthRange;
+
+vec4 toClip(vec2 world, float height) {
+  vec2 d = world - u_center;
+  float c = cos(u_bearing);
+  float s = sin(u_bearing);
+  vec2 turned = vec2(d.x * c + d.y * s, d.y * c - d.x * s);
+  vec2 screen = vec2(turned.x, turned.y * cos(u_pitch) - height * sin(u_pitch)) * u_zoom;
+  float nearness = (turned.y * sin(u_pitch) + height * cos(u_pitch)) * u_zoom;
+  vec2 p = screen / (u_viewport * 0.5);
+  return vec4(p.x, -p.y, -nearness / u_depthRange, 1.0);
+}`;
+
+const GEOMETRY_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_position;
+layout(location = 1) in vec4 a_color;
+layout(location = 2) in vec4 a_wall;
+layout(location = 3) in float a_seed;
+layout(location = 4) in float a_height;
+out vec4 v_color;
+out vec4 v_wall;
+out float v_seed;
+${VIEW_TRANSFORM}
+
+void main() {
+  v_color = a_color;
+  v_wall = a_wall;
+  v_seed = a_seed;
+  gl_Position = toClip(a_position, a_height);
+}`;
+
+// Walls carry (along, up, bay extent, storey extent) in world units; the
+// window grid is cut out per fragment so it costs no geometry
+const GEOMETRY_FRAGMENT = `#version 300 es
+precision highp float;
+in vec4 v_color;
+in vec4 v_wall;
+in float v_seed;
+uniform bool u_windows;
+uniform vec4 u_litWindow;
+uniform vec4 u_darkWindow;
+out vec4 outColor;
+
+const vec2 CELL = vec2(${WINDOW_SPACING.toFixed(3)}, ${FLOOR_HEIGHT.toFixed(3)});
+const float WINDOW = ${WINDOW_SIZE.toFixed(3)};
+
+${WINDOW_HASH_GLSL}
+
+void main() {
+  outColor = v_color;
+  if (u_windows && v_wall.x >= 0.0 && v_wall.y >= 0.0 && v_wall.x < v_wall.z && v_wall.y < v_wall.w) {
+    vec2 cell = v_wall.xy / CELL;
+    vec2 local = fract(cell) * CELL - (CELL - WINDOW) * 0.5;
+    if (all(greaterThanEqual(local, vec2(0.0))) && all(lessThan(local, vec2(WINDOW)))) {
+      uint seed = uint(v_seed);
+      uvec2 window = uvec2(floor(cell));
+      outColor = isWindowLit(seed >> 6u, seed & 63u, window.y, window.x) ? u_litWindow : u_darkWindow;
+    }
+  }
+}`;
+
+// Instanced footprints for GEOMETRY_FRAGMENT, flat on the ground and without
+// windows
+const QUAD_VERTEX = `#version 300 es
+layout(location = 0) in vec4 a_corners01;
+layout(location = 1) in vec4 a_corners23;
+layout(location = 2) in vec4 a_color;
+out vec4 v_color;
+out vec4 v_wall;
+out float v_seed;
+${VIEW_TRANSFORM}
+
+const int CORNERS[6] = int[6](0, 1, 2, 0, 2, 3);
+
+void main() {
+  int corner = CORNERS[gl_VertexID];
+  vec2 position = corner == 0 ? a_corners01.xy : corner == 1 ? a_corners01.zw
+    : corner == 2 ? a_corners23.xy : a_corners23.zw;
+  v_color = a_color;
+  v_wall = vec4(-1.0, -1.0, 0.0, 0.0);
+  v_seed = 0.0;
+  gl_Position = toClip(position, 0.0);
+}`;
+
+const RASTER_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_position;
+layout(location = 1) in vec2 a_uv;
+out vec2 v_uv;
+${VIEW_TRANSFORM}
+
+void main() {
+  v_uv = a_uv;
+  gl_Position = toClip(a_position, 0.0);
+}`;
+
+const RASTER_FRAGMENT = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+uniform sampler2D u_texture;
+out vec4 outColor;
+
+void main() {
+  outColor = texture(u_texture, v_uv);
+}`;
+
+function compile(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const program = gl.createProgram()!;
+  [[gl.VERTEX_SHADER, vertexSource], [gl.FRAGMENT_SHADER, fragmentSource]].forEach(([type, source]) => {
+    const shader = gl.createShader(type as GLenum)!;
+    gl.shaderSource(shader, source as string);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Shader compilation failed: ${gl.getShaderInfoLog(shader)}`);
+    }
+    gl.attachShader(program, shader);
+    gl.deleteShader(shader);
+  });
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader linking failed: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+interface Raster {
+  texture: WebGLTexture;
+  vao: WebGLVertexArrayObject;
+  buffer: WebGLBuffer;
+}
+
+interface SceneMeshes {
+  blocks: Mesh[];
+  blockLines: Mesh[];
+  lotLines: Mesh[];
+  // Blocks in their main land use, standing in for buildings from afar
+  blockFills: Mesh[];
+  parks: Mesh[];
+  // Casings under decks, decks under junction polygons
+  highwayCasings: Mesh[];
+  streetCasings: Mesh[];
+  streets: Mesh[];
+  highways: Mesh[];
+  markings: Mesh[];
+  debugNodes: Mesh[];
+  debugSegments: Mesh[];
+  // Plain convex footprints, instanced and drawn before the rest
+  buildingQuads: Mesh[];
+  buildings: Mesh[];
+  // Built on first use; most sessions never leave the plan view
+  oblique: Mesh[] | undefined;
+}
+
+const NO_MESHES: SceneMeshes = {
+  blocks: [],
+  blockLines: [],
+  lotLines: [],
+  blockFills: [],
+  parks: [],
+  highwayCasings: [],
+  streetCasings: [],
+  streets: [],
+  highways: [],
+  markings: [],
+  debugNodes: [],
+  debugSegments: [],
+  buildingQuads: [],
+  buildings: [],
+  oblique: []
+};
+
+const EMPTY_SCENE: RenderScene = {
+  segments: [],
+  network: null,
+  blocks: [],
+  parcels: [],
+  buildings: [],
+  relief: null,
+  heatmap: null
+};
+
+// Retained-mode backend: scene geometry is tessellated and uploaded once per
+// generated city and split into tiles, so a camera move is a draw call per
+// visible tile and layer. Takes a bare context, which lets snapshot tests
+// drive it with a software GL.
+export class WebGL2Renderer implements Renderer {
+  readonly kind = 'webgl2';
+  private geometry: WebGLProgram;
+  private quads: WebGLProgram;
+  private raster: WebGLProgram;
+  private scene = EMPTY_SCENE;
+  private meshes = NO_MESHES;
+  private rasters = new Map<RasterLayer, Raster>();
+  private width: number;
+  private height: number;
+  // Height of the tallest roof, to catch buildings leaning into view
+  private tallest = 0;
+  // Segments by position, for the labels of the few in view
+  private segmentGrid = new SpatialGrid<Segment>(TILE_SIZE);
+
+  constructor(private gl: WebGL2RenderingContext) {
+    this.geometry = compile(gl, GEOMETRY_VERTEX, GEOMETRY_FRAGMENT);
+    this.quads = compile(gl, QUAD_VERTEX, GEOMETRY_FRAGMENT);
+    this.raster = compile(gl, RASTER_VERTEX, RASTER_FRAGMENT);
+    this.width = gl.drawingBufferWidth;
+    this.height = gl.drawingBufferHeight;
+    gl.enable(gl.BLEND);
+    // Keep the drawing buffer opaque while blending colour
+    gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  setScene(scene: RenderScene) {
+    const previous = this.scene;
+    this.scene = scene;
+
+    if (scene.network !== previous.network || scene.blocks !== previous.blocks ||
+        scene.parcels !== previous.parcels || scene.buildings !== previous.buildings ||
+        scene.segments !== previous.segments) {
+      this.deleteMeshes();
+      this.meshes = this.buildMeshes(scene);
+      this.tallest = scene.buildings.reduce((max, building) =>
+        Math.max(max, building.tower ? building.tower.height : building.height), 0);
+      this.segmentGrid = new SpatialGrid<Segment>(TILE_SIZE);
+      scene.segments.forEach(segment => this.segmentGrid.insert(segment, segmentBounds(segment.start, segment.end)));
+    }
+
+    this.rasters.forEach((raster, layer) => {
+      if (layer === scene.relief || layer === scene.heatmap) return;
+      this.deleteRaster(raster);
+      this.rasters.delete(layer);
+    });
+  }
+
+  resize(width: number, height: number) {
+    const canvas = this.gl.canvas;
+    if (canvas) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    this.width = width;
+    this.height = height;
+  }
+
+  dispose() {
+    this.deleteMeshes();
+    this.rasters.forEach(raster => this.deleteRaster(raster));
+    this.rasters.clear();
+    this.gl.deleteProgram(this.geometry);
+    this.gl.deleteProgram(this.quads);
+    this.gl.deleteProgram(this.raster);
+  }
+
+  // RGBA rows of the last frame, bottom row first. Call it in the same task
+  // as render(): the drawing buffer is not preserved once the frame is shown.
+  snapshot(): Uint8Array {
+    const { gl, width, height } = this;
+    const pixels = new Uint8Array(width * height * 4);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+    return pixels;
+  }
+
+  render(camera: Camera, options: RenderOptions) {
+    const { gl, scene, meshes } = this;
+    const view = visibleBounds(camera, this.width, this.height);
+    const level = detailLevel(camera.zoom);
+    gl.viewport(0, 0, this.width, this.height);
+    const [r, g, b] = rgba(BACKGROUND_COLOR);
+    gl.clearColor(r / 255, g / 255, b / 255, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    if (scene.relief) this.drawRaster(scene.relief, camera);
+    if (options.showHeatmap && scene.heatmap) this.drawRaster(scene.heatmap, camera);
+
+    gl.useProgram(this.geometry);
+    this.setView(this.geometry, camera);
+    gl.uniform1i(gl.getUniformLocation(this.geometry, 'u_windows'), 0);
+
+    // Rings and brush dabs change every frame while painting
+    if (options.showHeatmap && (options.centers.length > 0 || options.strokes.length > 0)) {
+      const rings = new MeshBuilder('lines');
+      options.centers.forEach(center => rings.circle(center, center.radius, rgba(CENTER_RING_COLOR)));
+      const dabs = new MeshBuilder();
+      options.strokes.forEach(stroke => dabs.disc(stroke, stroke.radius, rgba(stroke.strength > 0 ? PAINT_COLOR : ERASE_COLOR)));
+      [rings.build(gl), dabs.build(gl)].forEach(mesh => {
+        if (!mesh) return;
+        this.draw([mesh], view);
+        this.deleteMesh(mesh);
+      });
+    }
+
+    if (options.showCityBlocks) {
+      this.draw(meshes.blocks, view);
+      this.draw(meshes.blockLines, view);
+      if (level === 'buildings') this.draw(meshes.lotLines, view);
+    } else if (level !== 'buildings') {
+      this.draw(meshes.blockFills, view);
+    }
+    if (level === 'buildings') this.draw(meshes.parks, view);
+
+    this.draw(meshes.highwayCasings, view);
+    if (level !== 'overview') {
+      this.draw(meshes.streetCasings, view);
+      this.draw(meshes.streets, view);
+    }
+    this.draw(meshes.highways, view);
+    if (camera.zoom >= ROAD_MARKINGS_ZOOM) this.draw(meshes.markings, view);
+    if (options.showDebug) {
+      this.draw(meshes.debugNodes, view);
+      // Raw segments stand in when there is no network
+      if (!scene.network) this.draw(meshes.debugSegments, view);
+    }
+
+    // Street labels on whichever roads are drawn, built each frame for the
+    // few segments in view this close
+    if ((scene.network || options.showDebug) && level === 'buildings' && LABEL_SIZE * camera.zoom >= MIN_LABEL_PIXELS) {
+      const labels = new MeshBuilder();
+      this.segmentGrid.query(view).forEach(segment =>
+        streetLabel(segment).forEach(([from, to]) => labels.band(from, to, LABEL_STROKE, rgba(LABEL_COLOR))));
+      const mesh = labels.build(gl);
+      if (mesh) {
+        this.draw([mesh], view);
+        this.deleteMesh(mesh);
+      }
+    }
+
+    if (level === 'buildings' && options.viewMode === 'oblique') {
+      if (meshes.oblique === undefined) meshes.oblique = this.buildOblique();
+      const lean = Math.tan(camera.pitch);
+      gl.uniform1i(gl.getUniformLocation(this.geometry, 'u_windows'), WINDOW_SIZE * camera.zoom >= MIN_WINDOW_PIXELS ? 1 : 0);
+      gl.uniform4fv(gl.getUniformLocation(this.geometry, 'u_litWindow'), rgba(LIT_WINDOW_COLOR).map(c => c / 255));
+      gl.uniform4fv(gl.getUniformLocation(this.geometry, 'u_darkWindow'), rgba(DARK_WINDOW_COLOR).map(c => c / 255));
+      // Every wall is in the mesh; the depth test keeps the ones in front
+      gl.enable(gl.DEPTH_TEST);
+      gl.depthFunc(gl.LEQUAL);
+      gl.clearDepth(1);
+      gl.clear(gl.DEPTH_BUFFER_BIT);
+      this.draw(meshes.oblique, expandBounds(view, this.tallest * lean));
+      gl.disable(gl.DEPTH_TEST);
+    } else if (level === 'buildings') {
+      gl.useProgram(this.quads);
+      this.setView(this.quads, camera);
+      gl.uniform1i(gl.getUniformLocation(this.quads, 'u_windows'), 0);
+      this.draw(meshes.buildingQuads, view);
+      gl.useProgram(this.geometry);
+      this.draw(meshes.buildings, view);
+    }
+
+    // Hovered and inspected items, over everything
+    if (options.highlights.length > 0) {
+      gl.uniform1i(gl.getUniformLocation(this.geometry, 'u_windows'), 0);
+      const shapes = new MeshBuilder();
+      options.highlights.forEach(highlight => {
+        shapes.height = highlight.height;
+        shapes.polygon(highlight.points, rgba(highlight.color));
+      });
+      const mesh = shapes.build(gl);
+      if (mesh) {
+        this.draw([mesh], mesh.bounds);
+        this.deleteMesh(mesh);
+      }
+    }
+  }
+
+  private setView(program: WebGLProgram, camera: Camera) {
+    const { gl } = this;
+    gl.uniform2f(gl.getUniformLocation(program, 'u_center'), camera.x, camera.y);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_zoom'), camera.zoom);
+    gl.uniform2f(gl.getUniformLocation(program, 'u_viewport'), this.width, this.height);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_bearing'), camera.bearing);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_pitch'), camera.pitch);
+    // Wide enough for the visible ground and the tallest building on it
+    gl.uniform1f(gl.getUniformLocation(program, 'u_depthRange'),
+      (this.width + this.height) / Math.cos(camera.pitch) + this.tallest * camera.zoom + 1);
+  }
+
+  // Draws the tiles that overlap the view
+  private draw(meshes: Mesh[], view: Bounds) {
+    const { gl } = this;
+    meshes.forEach(mesh => {
+      if (!boundsIntersect(mesh.bounds, view)) return;
+      gl.bindVertexArray(mesh.vao);
+      if (mesh.instances !== undefined) gl.drawArraysInstanced(mesh.mode, 0, mesh.count, mesh.instances);
+      else gl.drawElements(mesh.mode, mesh.count, gl.UNSIGNED_INT, 0);
+    });
+    gl.bindVertexArray(null);
+  }
+
+  private buildMeshes(scene: RenderScene): SceneMeshes {
+    const { gl } = this;
+
+    const blocks = new TiledMesh();
+    const blockLines = new TiledMesh('lines');
+    scene.blocks.forEach(block => {
+      blocks.at(block.points[0]).polygon(block.points, rgba(block.color));
+      blockLines.at(block.points[0]).outline(block.points, rgba(BLOCK_OUTLINE_COLOR));
+    });
+
+    const blockFills = new TiledMesh();
+    const landUses = dominantLandUse(scene.parcels);
+    scene.blocks.forEach(block => {
+      const landUse = landUses.get(block.id);
+      if (landUse) blockFills.at(block.points[0]).polygon(block.points, rgba(landUseFill(landUse)));
+    });
+
+    const lotLines = new TiledMesh('lines');
+    const parks = new TiledMesh();
+    scene.parcels.forEach(parcel => {
+      lotLines.at(parcel.points[0]).outline(parcel.points, rgba(LOT_LINE_COLOR));
+      if (parcel.landUse === 'park') parks.at(parcel.points[0]).polygon(parcel.points, rgba(PARK_COLOR));
+    });
+
+    const highwayCasings = new TiledMesh();
+    const streetCasings = new TiledMesh();
+    const highways = new TiledMesh();
+    const streets = new TiledMesh();
+    const markings = new TiledMesh();
+    const debugNodes = new TiledMesh();
+    if (scene.network) {
+      const { nodes, edges, intersections } = scene.network;
+      edges.forEach(edge => {
+        const anchor = midpoint(edge.start, edge.end);
+        if (edge.bridge) {
+          (edge.highway ? highwayCasings : streetCasings).at(anchor)
+            .band(edge.start, edge.end, edge.width + BRIDGE_CASING * 2, rgba(BRIDGE_CASING_COLOR));
+        }
+        (edge.highway ? highways : streets).at(anchor)
+          .band(edge.start, edge.end, edge.width, rgba(edge.highway ? HIGHWAY_COLOR : STREET_COLOR));
+      });
+
+      intersections.forEach(junction => {
+        (junction.isHighway ? highways : streets).at(junction.center)
+          .polygon(junction.polygon, rgba(junction.isHighway ? HIGHWAY_COLOR : STREET_COLOR));
+        const { stripes, stopLines } = junctionMarkings(junction);
+        const tile = markings.at(junction.center);
+        stripes.forEach(stripe => tile.quad(stripe, rgba(MARKING_COLOR)));
+        stopLines.forEach(([from, to]) => tile.band(from, to, STOP_LINE_WIDTH, rgba(MARKING_COLOR)));
+      });
+
+      nodes.forEach(node => {
+        if (node.edges.length >= 3) debugNodes.at(node.point).disc(node.point, DEBUG_NODE_RADIUS, rgba(DEBUG_NODE_COLOR));
+      });
+    }
+
+    const debugSegments = new TiledMesh();
+    scene.segments.forEach(segment => debugSegments.at(midpoint(segment.start, segment.end))
+      .band(segment.start, segment.end, segment.width, rgba(segment.highway ? HIGHWAY_COLOR : STREET_COLOR)));
+
+    // Towers stay in the triangulated mesh, which draws after the quads, so
+    // they always land on top of their base
+    const buildingQuads = new Tiles(() => new QuadBatch());
+    const buildings = new TiledMesh();
+    scene.buildings.forEach(building => {
+      const anchor = building.footprint[0];
+      const tile = buildings.at(anchor);
+      if (building.courtyard) tile.ring(building.footprint, building.courtyard, rgba(building.color));
+      else if (building.footprint.length === 4 && isConvex(building.footprint)) {
+        buildingQuads.at(anchor).quad(building.footprint, rgba(building.color));
+      } else tile.polygon(building.footprint, rgba(building.color));
+      if (building.tower) tile.polygon(building.tower.footprint, rgba(TOWER_TINT));
+    });
+
+    return {
+      blocks: blocks.build(gl),
+      blockLines: blockLines.build(gl),
+      lotLines: lotLines.build(gl),
+      blockFills: blockFills.build(gl),
+      parks: parks.build(gl),
+      highwayCasings: highwayCasings.build(gl),
+      streetCasings: streetCasings.build(gl),
+      streets: streets.build(gl),
+      highways: highways.build(gl),
+      markings: markings.build(gl),
+      debugNodes: debugNodes.build(gl),
+      debugSegments: debugSegments.build(gl),
+      buildingQuads: buildingQuads.build(gl),
+      buildings: buildings.build(gl),
+      oblique: undefined
+    };
+  }
+
+  // Extruded buildings with every wall, so turning the camera needs no
+  // rebuild; windows come from the fragment shader
+  private buildOblique(): Mesh[] {
+    const mesh = new TiledMesh();
+    this.scene.buildings.forEach(building => {
+      const tile = mesh.at(building.footprint[0]);
+      // Building id and wall index, as the canvas engine numbers walls for
+      // its windows
+      let seed = building.id * 64;
+      buildingVolumes(building).forEach(volume => {
+        volume.walls.forEach(wall => tile.wall(wall, rgba(wall.color), seed++));
+        tile.height = volume.top;
+        if (volume.hole) tile.ring(volume.roof, volume.hole, rgba(volume.roofColor));
+        else tile.polygon(volume.roof, rgba(volume.roofColor));
+        tile.height = 0;
+      });
+    });
+    return mesh.build(this.gl);
+  }
+
+  private drawRaster(layer: RasterLayer, camera: Camera) {
+    const { gl } = this;
+    let raster = this.rasters.get(layer);
+    if (!raster) {
+      raster = this.uploadRaster(layer);
+      this.rasters.set(layer, raster);
+    }
+    gl.useProgram(this.raster);
+    this.setView(this.raster, camera);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, raster.texture);
+    gl.uniform1i(gl.getUniformLocation(this.raster, 'u_texture'), 0);
+    gl.bindVertexArray(raster.vao);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.bindVertexArray(null);
+  }
+
+  private uploadRaster({ image, bounds }: RasterLayer): Raster {
+    const { gl } = this;
+    const texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, image.width, image.height, 0, gl.RGBA, gl.UNSIGNED_BYTE,
+      image.data instanceof Uint8Array || image.data instanceof Uint8ClampedArray
+        ? new Uint8Array(image.data.buffer, image.data.byteOffset, image.data.length)
+        : Uint8Array.from(image.data));
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    const { x, y, width, height } = bounds;
+    const vao = gl.createVertexArray()!;
+    gl.bindVertexArray(vao);
+    const buffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([
+      x, y, 0, 0,
+      x + width, y, 1, 0,
+      x, y + height, 0, 1,
+      x + width, y + height, 1, 1
+    ]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 16, 0);
+    gl.enableVertexAttribArray(1);
+    gl.vertexAttribPointer(1, 2, gl.FLOAT, false, 16, 8);
+    gl.bindVertexArray(null);
+
+    return { texture, vao, buffer };
+  }
+
+  private deleteRaster(raster: Raster) {
+    this.gl.deleteTexture(raster.texture);
+    this.gl.deleteVertexArray(raster.vao);
+    this.gl.deleteBuffer(raster.buffer);
+  }
+
+  private deleteMesh(mesh: Mesh) {
+    this.gl.deleteVertexArray(mesh.vao);
+    mesh.buffers.forEach(buffer => this.gl.deleteBuffer(buffer));
+  }
+
+  private deleteMeshes() {
+    Object.values(this.meshes).forEach((layer: Mesh[] | undefined) => layer?.forEach(mesh => this.deleteMesh(mesh)));
+    this.meshes = NO_MESHES;
+  }
+}
@@ -0,0 +1,45 @@
+import { GenerationProgress } from "@/types/road-network";
+import { CityPipelineInput, CityPipelineResult } from "@/lib/city-pipeline";
+
+// Bump whenever a request or response payload changes shape
+export const PROTOCOL_VERSION = 2;
+
+export interface WorkerRequestPayloads {
+  generate: CityPipelineInput;
+}
+
+export interface WorkerResponsePayloads {
+  generate: CityPipelineResult;
+}
+
+export interface WorkerProgressPayloads {
+  generate: GenerationProgress;
+}
+
+export type WorkerRequestKind = keyof WorkerRequestPayloads;
+
+export interface WorkerRequest<K extends WorkerRequestKind = WorkerRequestKind> {
+  version: number;
+  id: number;
+  kind: K;
+  payload: WorkerRequestPayloads[K];
+}
+
+interface WorkerMessageHeader<K extends WorkerRequestKind> {
+  version: number;
+  id: number;
+  kind: K;
+}
+
+// Any number of progress messages precede exactly one result or error
+export type WorkerResponse<K extends WorkerRequestKind = WorkerRequestKind> = WorkerMessageHeader<K> & (
+  | { type: 'progress'; payload: WorkerProgressPayloads[K] }
+  | { type: 'result'; payload: WorkerResponsePayloads[K] }
+  | { type: 'error'; error: string }
+);
+
+export function isWorkerMessage(data: unknown): data is WorkerMessageHeader<WorkerRequestKind> {
+  if (typeof data !== 'object' || data === null) return false;
+  const message = data as Record<string, unknown>;
+  return typeof message.version === 'number' && typeof message.id === 'number' && typeof message.kind === 'string';
+}
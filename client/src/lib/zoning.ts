@@ -0,0 +1,80 @@
+import { GenerationConfig, LandUse, Parcel, PopulationField, UnifiedRoadNetwork } from "@/types/road-network";
+import { closestPointOnSegment, polygonCentroid } from "@/lib/geometry";
+import { Random } from "@/lib/random";
+import { segmentBounds, SpatialGrid } from "@/lib/spatial-index";
+
+export const LAND_USES: LandUse[] = ['residential', 'commercial', 'industrial', 'civic', 'park'];
+
+// Hue and saturation per land use; lightness varies per building
+export const LAND_USE_COLORS: Record<LandUse, { hue: number; saturation: number }> = {
+  residential: { hue: 30, saturation: 45 },
+  commercial: { hue: 215, saturation: 60 },
+  industrial: { hue: 270, saturation: 15 },
+  civic: { hue: 355, saturation: 55 },
+  park: { hue: 120, saturation: 35 }
+};
+
+type ZoningRules = Pick<GenerationConfig,
+  'ZONE_COMMERCIAL_DENSITY' | 'ZONE_INDUSTRIAL_DISTANCE' | 'ZONE_INDUSTRIAL_MAX_DENSITY' |
+  'ZONE_CIVIC_SHARE' | 'ZONE_PARK_SHARE'>;
+
+// Assigns a land use to every parcel from local density and how close it is
+// to a highway: dense cores turn commercial, sparse land by highways
+// industrial, with a sprinkling of civic lots and parks. Mutates the parcels.
+export function zoneParcels(
+  parcels: Parcel[],
+  network: UnifiedRoadNetwork,
+  population: PopulationField,
+  rules: ZoningRules,
+  random: Random
+) {
+  const reach = rules.ZONE_INDUSTRIAL_DISTANCE;
+  const highways = new SpatialGrid<number>(Math.max(reach, 100));
+  network.edges.forEach(edge => {
+    if (edge.highway) highways.insert(edge.id, segmentBounds(edge.start, edge.end));
+  });
+
+  const nearHighway = (x: number, y: number) =>
+    highways.query(segmentBounds({ x, y }, { x, y }, reach)).some(id => {
+      const edge = network.edges[id];
+      return closestPointOnSegment({ x, y }, edge.start, edge.end).distance <= reach;
+    });
+
+  parcels.forEach(parcel => {
+    const center = polygonCentroid(parcel.points);
+    const density = population.sample(center.x, center.y);
+
+    // Draw both up front so one rule never shifts another's outcome
+    const parkRoll = random.next();
+    const civicRoll = random.next();
+
+    let landUse: LandUse;
+    if (parkRoll < rules.ZONE_PARK_SHARE) landUse = 'park';
+    else if (civicRoll < rules.ZONE_CIVIC_SHARE) landUse = 'civic';
+    else if (density >= rules.ZONE_COMMERCIAL_DENSITY) landUse = 'commercial';
+    else if (density < rules.ZONE_INDUSTRIAL_MAX_DENSITY && nearHighway(center.x, center.y)) landUse = 'industrial';
+    else landUse = 'residential';
+
+    parcel.landUse = landUse;
+  });
+}
+
+// Land use covering most of each block's area, by block id. Stands in for
+// the individual buildings when the city is seen from far away.
+export function dominantLandUse(parcels: Parcel[]): Map<number, LandUse> {
+  const areas = new Map<number, Record<LandUse, number>>();
+  parcels.forEach(parcel => {
+    let totals = areas.get(parcel.blockId);
+    if (!totals) {
+      totals = Object.fromEntries(LAND_USES.map(use => [use, 0])) as Record<LandUse, number>;
+      areas.set(parcel.blockId, totals);
+    }
+    totals[parcel.landUse] += parcel.area;
+  });
+
+  const dominant = new Map<number, LandUse>();
+  areas.forEach((totals, blockId) => {
+    dominant.set(blockId, LAND_USES.reduce((best, use) => totals[use] > totals[best] ? use : best));
+  });
+  return dominant;
+}
@@ -1,35 +1,19 @@
-export interface Building {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  depth: number;
-  color: string;
-  windows: Window[];
-}
-
-export interface Window {
-  x: number;
-  y: number;
-  lit: boolean;
-}
-
-export interface CityParameters {
-  citySize: number;
-  buildingDensity: number;
-  buildingHeight: number;
-  streetWidth: number;
-  variation: number;
-}
+import { GenerationConfig } from "@/types/road-network";
 
 export interface Camera {
   x: number;
   y: number;
   zoom: number;
+  // Radians clockwise from north (world -y) to the top of the screen
+  bearing: number;
+  // Radians of tilt from looking straight down
+  pitch: number;
 }
 
 export interface CityPreset {
   name: string;
   icon: string;
-  parameters: CityParameters;
+  // Generation overrides; see applyPreset for how they combine with the
+  // current config
+  generation: Partial<GenerationConfig>;
 }
@@ -0,0 +1,239 @@
+import type { HeatmapNoiseType } from "@/lib/noise";
+import type { Random } from "@/lib/random";
+import type { RoadPatternKind } from "@/lib/road-patterns";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Segment {
+  id: number;
+  start: Point;
+  end: Point;
+  width: number;
+  t: number;
+  highway: boolean;
+  dir: number;
+  length: number;
+  severed: boolean;
+  // Crosses water on a bridge
+  bridge: boolean;
+  links: { f: Segment[]; b: Segment[] };
+}
+
+export type LandUse = 'residential' | 'commercial' | 'industrial' | 'civic' | 'park';
+
+// Footprint family, denser districts getting the bulkier ones
+export type BuildingShape = 'box' | 'l-shape' | 'u-shape' | 'courtyard' | 'tower';
+
+export interface Building {
+  id: number;
+  // Parcel the building stands on
+  parcelId: number;
+  shape: BuildingShape;
+  landUse: LandUse;
+  // Outline, counter-clockwise. The first side faces the street.
+  footprint: Point[];
+  // Eaves height of the footprint; the podium's height for towers
+  height: number;
+  // Open-air hole of a courtyard building, counter-clockwise
+  courtyard: Point[] | null;
+  // Raised part of a tower-on-podium, standing on the footprint
+  tower: { footprint: Point[]; height: number } | null;
+  // Direction along the street frontage, radians
+  orientation: number;
+  color: string;
+}
+
+// Area enclosed by roads, inset from the pavement. Counter-clockwise in
+// world coordinates.
+export interface CityBlock {
+  id: number;
+  points: Point[];
+  // Road edge id each side runs along: points[i] to points[i + 1] fronts
+  // frontage[i]
+  frontage: number[];
+  area: number;
+  color: string;
+}
+
+// Lot inside a city block. Every parcel fronts at least one street.
+export interface Parcel {
+  id: number;
+  blockId: number;
+  points: Point[];
+  // Road edge id each side runs along, -1 where it borders another parcel
+  frontage: number[];
+  area: number;
+  landUse: LandUse;
+}
+
+export interface GenerationConfig {
+  HIGHWAY_SEGMENT_LENGTH: number;
+  DEFAULT_SEGMENT_LENGTH: number;
+  HIGHWAY_SEGMENT_WIDTH: number;
+  DEFAULT_SEGMENT_WIDTH: number;
+  HIGHWAY_BRANCH_PROBABILITY: number;
+  DEFAULT_BRANCH_PROBABILITY: number;
+  HIGHWAY_BRANCH_POPULATION_THRESHOLD: number;
+  NORMAL_BRANCH_POPULATION_THRESHOLD: number;
+  NORMAL_BRANCH_TIME_DELAY_FROM_HIGHWAY: number;
+  NORMAL_BRANCH_TIME_DELAY: number;
+  HIGHWAY_CURVE_DEVIATION: number; // degrees
+  MINIMUM_INTERSECTION_DEVIATION: number; // degrees
+  ROAD_SNAP_DISTANCE: number;
+  // Street patterns
+  ROAD_PATTERN: RoadPatternKind;
+  GRID_ANGLE: number; // degrees
+  GRID_PER_DISTRICT: boolean;
+  ORGANIC_DEVIATION: number; // degrees
+  DISTRICT_COUNT: number;
+  DISTRICT_SPREAD: number;
+  // Terrain
+  TERRAIN_ENABLED: boolean;
+  TERRAIN_HEIGHT: number;
+  TERRAIN_SEA_LEVEL: number;
+  TERRAIN_RIVER_WIDTH: number;
+  TERRAIN_LAKE_DENSITY: number;
+  MAX_ROAD_SLOPE: number; // rise over run
+  BRIDGE_MAX_LENGTH: number;
+  TERRAIN_BEND_ANGLE: number; // degrees
+  // Lot subdivision
+  LOT_MIN_FRONTAGE: number;
+  LOT_MAX_FRONTAGE: number;
+  LOT_MIN_AREA: number;
+  LOT_MAX_AREA: number;
+  // Zoning
+  ZONE_COMMERCIAL_DENSITY: number;
+  ZONE_INDUSTRIAL_DISTANCE: number; // from a highway
+  ZONE_INDUSTRIAL_MAX_DENSITY: number;
+  ZONE_CIVIC_SHARE: number;
+  ZONE_PARK_SHARE: number;
+  BUILDING_MAX_HEIGHT: number;
+  // Population field
+  HEATMAP_NOISE_TYPE: HeatmapNoiseType;
+  HEATMAP_OCTAVES: number;
+  HEATMAP_FREQUENCY: number;
+  HEATMAP_PERSISTENCE: number;
+  HEATMAP_LACUNARITY: number;
+  HEATMAP_DOMAIN_WARP: number;
+}
+
+// Population density in [0, 1] at a world position
+export type HeatmapSource = (x: number, y: number) => number;
+
+// Elevation and water that roads have to respect
+export interface Terrain {
+  heightAt(x: number, y: number): number;
+  isWater(x: number, y: number): boolean;
+}
+
+// Anything that can drive growth: noise, images, city centers, painted layers
+export interface PopulationField {
+  sample(x: number, y: number): number;
+}
+
+export type GenerationPhase = 'roads' | 'network' | 'blocks' | 'lots' | 'zoning' | 'buildings';
+
+export interface GenerationProgress {
+  phase: GenerationPhase;
+  segmentCount: number;
+  segmentLimit: number;
+  // Proposals still waiting in the priority queue
+  queueSize: number;
+}
+
+export interface GenerationInput {
+  seed: number;
+  segmentLimit: number;
+  config?: Partial<GenerationConfig>;
+  population?: PopulationField;
+  // Overrides the procedural terrain; null means a flat, dry plane
+  terrain?: Terrain | null;
+  // Overrides the generator derived from `seed`
+  random?: Random;
+  // Called periodically while roads are placed
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+export interface GenerationStats {
+  segmentCount: number;
+  highwayCount: number;
+  // Proposals discarded by local constraints
+  rejectedCount: number;
+  intersectionCount: number;
+  bridgeCount: number;
+  iterations: number;
+  durationMs: number;
+}
+
+export interface GenerationResult {
+  segments: Segment[];
+  stats: GenerationStats;
+}
+
+// Road stats plus what the later pipeline phases built on top
+export interface CityStats extends GenerationStats {
+  blockCount: number;
+  parcelCount: number;
+  buildingCount: number;
+  // Gross floor area per land use, in square world units
+  floorArea: Record<LandUse, number>;
+}
+
+// Road geometry sent to the worker for unification
+export type RoadSegmentInput = Pick<Segment, 'id' | 'start' | 'end' | 'width' | 'highway' | 'bridge'>;
+
+// Junction or dead end in the planar road graph
+export interface RoadNode {
+  id: number;
+  point: Point;
+  // Ids of the edges meeting here
+  edges: number[];
+}
+
+// Road between two nodes that crosses no other road
+export interface RoadEdge {
+  id: number;
+  from: number;
+  to: number;
+  start: Point;
+  end: Point;
+  width: number;
+  highway: boolean;
+  bridge: boolean;
+  // Id of the generated segment this edge was cut from
+  segmentId: number;
+}
+
+// Bend: two roads meeting at an angle. Interchange: three or more highway arms.
+export type JunctionKind = 'bend' | 'tee' | 'crossroads' | 'multiway' | 'interchange';
+
+export interface UnifiedIntersection {
+  nodeId: number;
+  kind: JunctionKind;
+  center: Point;
+  // Distance from the center to the farthest polygon vertex
+  radius: number;
+  // Paved area where the roads overlap, counter-clockwise
+  polygon: Point[];
+  // Sorted by angle
+  connectedRoads: Array<{
+    edgeId: number;
+    angle: number;
+    width: number;
+    highway: boolean;
+    // Center of the road where it leaves the junction polygon
+    meetingPoint: Point;
+    // Whether the edge starts (rather than ends) at this junction
+    isAtStart: boolean;
+  }>;
+  isHighway: boolean;
+}
+
+export interface UnifiedRoadNetwork {
+  nodes: RoadNode[];
+  edges: RoadEdge[];
+  intersections: UnifiedIntersection[];
+}
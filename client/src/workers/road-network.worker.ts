@@ -0,0 +1,36 @@
+// Web Worker running the city generation pipeline off the main thread
+import { runCityPipeline } from "@/lib/city-pipeline";
+import { isWorkerMessage, PROTOCOL_VERSION, WorkerRequest, WorkerResponse } from "@/lib/worker-protocol";
+
+// The DOM lib types `self` as Window; the worker scope shares Worker's messaging API
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<unknown>) => {
+  if (!isWorkerMessage(e.data)) return;
+  const { id, kind, version } = e.data;
+
+  if (version !== PROTOCOL_VERSION) {
+    respond({ version: PROTOCOL_VERSION, id, kind, type: 'error', error: `Unsupported protocol version ${version}` });
+    return;
+  }
+
+  try {
+    const request = e.data as WorkerRequest;
+    switch (request.kind) {
+      case 'generate': {
+        const result = runCityPipeline(request.payload, progress =>
+          respond({ version, id, kind, type: 'progress', payload: progress }));
+        respond({ version, id, kind, type: 'result', payload: result });
+        break;
+      }
+      default:
+        respond({ version, id, kind, type: 'error', error: `Unknown request kind ${kind}` });
+    }
+  } catch (error) {
+    respond({ version, id, kind, type: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+function respond(response: WorkerResponse) {
+  ctx.postMessage(response);
+}
@@ -0,0 +1,102 @@
+// Reports road generation time per segment count, then frame time for a
+// city of FRAME_SEGMENTS segments.
+// Usage: npm run bench -- [seed] [count...]
+import { Camera } from "@/types/city";
+import { Canvas2DRenderer } from "@/lib/canvas-renderer";
+import { OBLIQUE_PITCH } from "@/lib/city-engine";
+import { fromSegmentRecords, runCityPipeline } from "@/lib/city-pipeline";
+import { DEFAULT_CONFIG } from "@/lib/generation-config";
+import { RenderOptions } from "@/lib/renderer";
+import { generateRoadNetwork } from "@/lib/road-network-generator";
+
+const [seedArg, ...countArgs] = process.argv.slice(2);
+const seed = seedArg ? Number(seedArg) : 12345;
+const counts = countArgs.length > 0 ? countArgs.map(Number) : [1000, 5000, 10000, 25000, 50000, 100000];
+
+const FRAME_SEGMENTS = 20000;
+const FRAME_BUDGET_MS = 16;
+const FRAMES = 30;
+const VIEWPORT = { width: 1920, height: 1080 };
+
+// Warm up the JIT so the first row isn't skewed
+generateRoadNetwork({ seed, segmentLimit: 500 });
+
+console.log(`seed ${seed}`);
+console.log('segments'.padStart(10), 'generated'.padStart(10), 'total ms'.padStart(10), 'µs/segment'.padStart(12));
+
+for (const segmentLimit of counts) {
+  const { stats } = generateRoadNetwork({ seed, segmentLimit });
+  const perSegment = (stats.durationMs * 1000) / Math.max(1, stats.segmentCount);
+  console.log(
+    String(segmentLimit).padStart(10),
+    String(stats.segmentCount).padStart(10),
+    stats.durationMs.toFixed(1).padStart(10),
+    perSegment.toFixed(1).padStart(12)
+  );
+}
+
+// A 2D context that accepts every call and draws nothing, so the frame time
+// is the renderer's own culling, level-of-detail and batching work. The
+// browser's rasterisation comes on top.
+function nullContext(width: number, height: number): CanvasRenderingContext2D {
+  const none = () => {};
+  return {
+    canvas: { width, height },
+    arc: none, beginPath: none, closePath: none, fill: none, fillRect: none, lineTo: none, moveTo: none,
+    restore: none, rotate: none, save: none, scale: none, stroke: none, translate: none
+  } as unknown as CanvasRenderingContext2D;
+}
+
+const city = runCityPipeline({
+  seed,
+  segmentLimit: FRAME_SEGMENTS,
+  config: DEFAULT_CONFIG,
+  population: { kind: 'noise' },
+  terrain: { kind: 'procedural' }
+});
+const renderer = new Canvas2DRenderer(nullContext(VIEWPORT.width, VIEWPORT.height));
+renderer.setScene({
+  segments: fromSegmentRecords(city.segments),
+  network: city.network,
+  blocks: city.blocks,
+  parcels: city.parcels,
+  buildings: city.buildings,
+  relief: null,
+  heatmap: null
+});
+const options: RenderOptions = {
+  viewMode: 'plan',
+  showDebug: false,
+  showHeatmap: false,
+  showCityBlocks: false,
+  centers: [],
+  strokes: [],
+  highlights: []
+};
+
+// From the whole city down to single buildings with their labels
+const views: Array<[string, Camera, RenderOptions]> = [
+  ['overview', { x: 0, y: 0, zoom: 0.05, bearing: 0, pitch: 0 }, options],
+  ['streets', { x: 0, y: 0, zoom: 0.2, bearing: 0, pitch: 0 }, options],
+  ['buildings', { x: 0, y: 0, zoom: 0.6, bearing: 0, pitch: 0 }, options],
+  ['labels', { x: 0, y: 0, zoom: 3, bearing: 0, pitch: 0 }, options],
+  ['oblique', { x: 0, y: 0, zoom: 0.6, bearing: 0.5, pitch: OBLIQUE_PITCH }, { ...options, viewMode: 'oblique' }]
+];
+
+console.log();
+console.log(`frames over ${city.segments.length} segments, ${city.buildings.length} buildings`);
+console.log('view'.padStart(10), 'zoom'.padStart(10), 'ms/frame'.padStart(10), 'budget'.padStart(12));
+
+views.forEach(([name, camera, viewOptions]) => {
+  // The first frame of a view builds caches; time the steady state
+  renderer.render(camera, viewOptions);
+  const start = performance.now();
+  for (let i = 0; i < FRAMES; i++) renderer.render(camera, viewOptions);
+  const perFrame = (performance.now() - start) / FRAMES;
+  console.log(
+    name.padStart(10),
+    String(camera.zoom).padStart(10),
+    perFrame.toFixed(2).padStart(10),
+    (perFrame <= FRAME_BUDGET_MS ? 'within' : 'OVER').padStart(12)
+  );
+});
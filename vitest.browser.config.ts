@@ -0,0 +1,20 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config";
+
+// Renderer tests that need a real WebGL2 context. Headless Chromium renders
+// with its software GL, so they run without a GPU; fetch it once with
+// `npx playwright install chromium`.
+export default mergeConfig(
+  viteConfig,
+  defineConfig({
+    test: {
+      include: ["src/**/*.browser.test.ts"],
+      browser: {
+        enabled: true,
+        provider: "playwright",
+        name: "chromium",
+        headless: true,
+      },
+    },
+  }),
+);